@@ -1526,6 +1526,21 @@ export interface ChallengeInfo {
   bloods?: Blood[];
   /** Whether to disable blood bonus */
   disableBloodBonus?: boolean;
+  /**
+   * Initial score, used to replay the dynamic score
+   * @format int32
+   */
+  originalScore?: number;
+  /**
+   * Minimum score rate, used to replay the dynamic score
+   * @format double
+   */
+  minScoreRate?: number;
+  /**
+   * Difficulty coefficient, used to replay the dynamic score
+   * @format double
+   */
+  difficulty?: number;
 }
 
 export interface Blood {
@@ -1747,6 +1762,19 @@ export interface TeamWithDetailedUserInfo {
   members?: ProfileUserInfoModel[] | null;
 }
 
+/** Challenge content and instance state of a team, used to search and filter the challenge board */
+export interface ChallengeBriefModel {
+  /**
+   * Challenge ID
+   * @format int32
+   */
+  id?: number;
+  /** Challenge content */
+  content?: string;
+  /** Whether the team has a running instance of the challenge */
+  instanceRunning?: boolean;
+}
+
 /** Challenge detailed information */
 export interface ChallengeDetailModel {
   /**
@@ -4074,6 +4102,58 @@ export class Api<
       }),
   };
   game = {
+    /**
+     * @description Retrieves the content and instance state of all challenges for the team; requires User permission and active team participation
+     *
+     * @tags Game
+     * @name GameChallengeBriefs
+     * @summary Get challenge briefs of the team
+     * @request GET:/api/game/{id}/challenges/briefs
+     */
+    gameChallengeBriefs: (id: number, params: RequestParams = {}) =>
+      this.request<ChallengeBriefModel[], RequestResponse>({
+        path: `/api/game/${id}/challenges/briefs`,
+        method: "GET",
+        format: "json",
+        ...params,
+      }),
+    /**
+     * @description Retrieves the content and instance state of all challenges for the team; requires User permission and active team participation
+     *
+     * @tags Game
+     * @name GameChallengeBriefs
+     * @summary Get challenge briefs of the team
+     * @request GET:/api/game/{id}/challenges/briefs
+     */
+    useGameChallengeBriefs: (
+      id: number,
+      options?: SWRConfiguration,
+      doFetch: boolean = true,
+    ) =>
+      useSWR<ChallengeBriefModel[], RequestResponse>(
+        doFetch ? `/api/game/${id}/challenges/briefs` : null,
+        options,
+      ),
+
+    /**
+     * @description Retrieves the content and instance state of all challenges for the team; requires User permission and active team participation
+     *
+     * @tags Game
+     * @name GameChallengeBriefs
+     * @summary Get challenge briefs of the team
+     * @request GET:/api/game/{id}/challenges/briefs
+     */
+    mutateGameChallengeBriefs: (
+      id: number,
+      data?: ChallengeBriefModel[] | Promise<ChallengeBriefModel[]>,
+      options?: MutatorOptions,
+    ) =>
+      mutate<ChallengeBriefModel[]>(
+        `/api/game/${id}/challenges/briefs`,
+        data,
+        options,
+      ),
+
     /**
      * @description Retrieves all challenges of the game; requires User permission and active team participation
      *
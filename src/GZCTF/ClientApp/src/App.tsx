@@ -10,8 +10,9 @@ import { useRoutes } from 'react-router'
 import { SWRConfig } from 'swr'
 import routes from '~react-pages'
 import { ErrorFallback } from '@Components/ErrorFallback'
+import { HubProvider } from '@Components/HubProvider'
 import { WsrxProvider } from '@Components/WsrxProvider'
-import { localCacheProvider } from '@Utils/Cache'
+import { localCacheProvider, useCacheSync } from '@Utils/Cache'
 import { useLanguage } from '@Utils/I18n'
 import { useCustomTheme } from '@Utils/ThemeOverride'
 import { useBanner } from '@Hooks/useConfig'
@@ -22,6 +23,11 @@ import '@mantine/dropzone/styles.css'
 import '@mantine/notifications/styles.css'
 import './styles/App.css'
 
+const CacheSync: FC = () => {
+  useCacheSync()
+  return null
+}
+
 export const App: FC = () => {
   useBanner()
 
@@ -43,16 +49,19 @@ export const App: FC = () => {
                   fetcher,
                 }}
               >
+                <CacheSync />
                 <WsrxProvider>
-                  <Suspense
-                    fallback={
-                      <Center h="100vh" w="100vw">
-                        <Loader />
-                      </Center>
-                    }
-                  >
-                    {useRoutes(routes)}
-                  </Suspense>
+                  <HubProvider>
+                    <Suspense
+                      fallback={
+                        <Center h="100vh" w="100vw">
+                          <Loader />
+                        </Center>
+                      }
+                    >
+                      {useRoutes(routes)}
+                    </Suspense>
+                  </HubProvider>
                 </WsrxProvider>
               </SWRConfig>
             </ModalsProvider>
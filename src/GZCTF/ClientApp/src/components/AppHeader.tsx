@@ -5,6 +5,7 @@ import {
   mdiCached,
   mdiLogout,
   mdiPalette,
+  mdiStethoscope,
   mdiTranslate,
   mdiWeatherNight,
   mdiWeatherSunny,
@@ -21,7 +22,7 @@ import { useIsMobile } from '@Utils/ThemeOverride'
 import { useLogOut, useUser } from '@Hooks/useUser'
 import classes from '@Styles/AppHeader.module.css'
 
-export const AppHeader: FC<AppControlProps> = ({ openColorModal }) => {
+export const AppHeader: FC<AppControlProps> = ({ openColorModal, openDiagnostics }) => {
   const [opened, setOpened] = useState(false)
   const location = useLocation()
   const navigate = useNavigate()
@@ -107,6 +108,11 @@ export const AppHeader: FC<AppControlProps> = ({ openColorModal }) => {
               <Menu.Item onClick={openColorModal} leftSection={<Icon path={mdiPalette} size={1} />}>
                 {t('common.content.color.title')}
               </Menu.Item>
+              {openDiagnostics && (
+                <Menu.Item onClick={openDiagnostics} leftSection={<Icon path={mdiStethoscope} size={1} />}>
+                  {t('common.diagnostics.title')}
+                </Menu.Item>
+              )}
             </Menu.Dropdown>
           </Menu>
         </Group>
@@ -20,6 +20,7 @@ import {
   mdiLogout,
   mdiNoteTextOutline,
   mdiPalette,
+  mdiStethoscope,
   mdiTranslate,
   mdiWeatherNight,
   mdiWeatherSunny,
@@ -75,7 +76,7 @@ const NavbarLink: FC<NavbarLinkProps> = (props: NavbarLinkProps) => {
   )
 }
 
-export const AppNavbar: FC<AppControlProps> = ({ openColorModal }) => {
+export const AppNavbar: FC<AppControlProps> = ({ openColorModal, openDiagnostics }) => {
   const location = useLocation()
   const { colorScheme, toggleColorScheme } = useMantineColorScheme()
 
@@ -211,6 +212,11 @@ export const AppNavbar: FC<AppControlProps> = ({ openColorModal }) => {
               <Menu.Item onClick={openColorModal} leftSection={<Icon path={mdiPalette} size={1} />}>
                 {t('common.content.color.title')}
               </Menu.Item>
+              {openDiagnostics && (
+                <Menu.Item onClick={openDiagnostics} leftSection={<Icon path={mdiStethoscope} size={1} />}>
+                  {t('common.diagnostics.title')}
+                </Menu.Item>
+              )}
               <MenuDivider />
               {loggedIn ? (
                 <Menu.Item color="red" onClick={logout} leftSection={<Icon path={mdiLogout} size={1} />}>
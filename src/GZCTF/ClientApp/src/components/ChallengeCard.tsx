@@ -18,7 +18,9 @@ import cx from 'clsx'
 import dayjs from 'dayjs'
 import { FC } from 'react'
 import { Trans } from 'react-i18next'
+import { ClaimAvatars } from '@Components/ChallengeClaims'
 import { ScrollingText } from '@Components/ScrollingText'
+import { ChallengeClaimModel } from '@Utils/Claims'
 import { useLanguage } from '@Utils/I18n'
 import { BloodsTypes, PartialIconProps, useChallengeCategoryLabelMap } from '@Utils/Shared'
 import { ChallengeInfo, SubmissionType } from '@Api'
@@ -33,10 +35,14 @@ interface ChallengeCardProps {
   iconMap: Map<SubmissionType, PartialIconProps | undefined>
   colorMap: Map<SubmissionType, string | undefined>
   teamId?: number
+  /** work status of the team members */
+  claims?: ChallengeClaimModel[]
+  /** picked with the keyboard */
+  selected?: boolean
 }
 
 export const ChallengeCard: FC<ChallengeCardProps> = (props: ChallengeCardProps) => {
-  const { challenge, solved, onClick, iconMap, teamId, colorMap } = props
+  const { challenge, solved, onClick, iconMap, teamId, colorMap, claims, selected } = props
   const challengeCategoryLabelMap = useChallengeCategoryLabelMap()
   const cateData = challengeCategoryLabelMap.get(challenge.category!)
   const theme = useMantineTheme()
@@ -49,11 +55,13 @@ export const ChallengeCard: FC<ChallengeCardProps> = (props: ChallengeCardProps)
       shadow="sm"
       className={cx(misc.hoverCard, classes.root)}
       data-solved={solved || undefined}
+      data-selected={selected || undefined}
       data-no-move
     >
       <Stack gap="xs" pos="relative" style={{ zIndex: 99 }}>
         <Group h="30px" wrap="nowrap" justify="space-between" gap={2}>
           <ScrollingText text={challenge.title || ''} size="lg" />
+          {!solved && claims && <ClaimAvatars claims={claims} />}
         </Group>
         <Divider size="sm" color={cateData?.color} />
         <Group wrap="nowrap" justify="space-between" align="center" gap={2}>
@@ -131,3 +139,53 @@ export const ChallengeCard: FC<ChallengeCardProps> = (props: ChallengeCardProps)
     </Card>
   )
 }
+
+/**
+ * A single row of the compact challenge list
+ */
+export const ChallengeListItem: FC<ChallengeCardProps> = (props: ChallengeCardProps) => {
+  const { challenge, solved, onClick, iconMap, claims, selected } = props
+  const challengeCategoryLabelMap = useChallengeCategoryLabelMap()
+  const cateData = challengeCategoryLabelMap.get(challenge.category!)
+
+  return (
+    <Card
+      onClick={onClick}
+      radius="md"
+      shadow="sm"
+      py={6}
+      px="sm"
+      className={cx(misc.hoverCard, classes.root)}
+      data-solved={solved || undefined}
+      data-selected={selected || undefined}
+    >
+      <Group wrap="nowrap" gap="sm">
+        {cateData && <Icon size={0.9} path={cateData.icon} color={`var(--mantine-color-${cateData.color}-6)`} />}
+        <Text fw="bold" truncate className={classes.title}>
+          {challenge.title}
+        </Text>
+        {!solved && claims && <ClaimAvatars claims={claims} />}
+        <Group gap={4} wrap="nowrap" w="4.5rem" justify="flex-end">
+          {challenge.bloods?.map((blood, idx) => (
+            <Tooltip key={idx} label={blood?.name} withArrow>
+              <Icon {...iconMap.get(BloodsTypes[idx])!} />
+            </Tooltip>
+          ))}
+        </Group>
+        <Text size="sm" fw="bold" c="dimmed" w="7rem" ta="right" truncate>
+          <Trans i18nKey={'challenge.content.solved'} values={{ solved: challenge.solved }}>
+            _
+            <Code fz="sm" fw="bolder" bg="transparent">
+              _
+            </Code>
+            _
+          </Trans>
+        </Text>
+        <Text fw="bold" w="5.5rem" ta="right" className={misc.ffmono}>
+          {challenge.score}&nbsp;pts
+        </Text>
+        <Center w="1.5rem">{solved && <Icon size={0.8} path={mdiFlag} />}</Center>
+      </Group>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+import { Avatar, Group, SegmentedControl, Text, Tooltip } from '@mantine/core'
+import { Icon } from '@mdi/react'
+import { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ChallengeClaimModel, ClaimStatus, useClaimStatusMap } from '@Utils/Claims'
+
+interface ClaimAvatarsProps {
+  claims: ChallengeClaimModel[]
+  size?: number
+}
+
+export const ClaimAvatars: FC<ClaimAvatarsProps> = ({ claims, size = 20 }) => {
+  const statusMap = useClaimStatusMap()
+
+  if (claims.length === 0) return null
+
+  return (
+    <Avatar.Group spacing={size / 3}>
+      {claims.map((claim) => {
+        const status = statusMap.get(claim.status!)
+        return (
+          <Tooltip key={claim.userId} label={`${claim.userName} · ${status?.label}`} withArrow>
+            <Avatar
+              alt="avatar"
+              src={claim.avatar}
+              size={size}
+              radius="xl"
+              style={{ borderColor: `var(--mantine-color-${status?.color}-6)` }}
+            >
+              {claim.userName?.slice(0, 1) ?? 'U'}
+            </Avatar>
+          </Tooltip>
+        )
+      })}
+    </Avatar.Group>
+  )
+}
+
+interface ChallengeClaimControlProps {
+  claims: ChallengeClaimModel[]
+  userId?: string | null
+  onClaim: (status: ClaimStatus | null) => void
+  disabled?: boolean
+}
+
+export const ChallengeClaimControl: FC<ChallengeClaimControlProps> = ({ claims, userId, onClaim, disabled }) => {
+  const { t } = useTranslation()
+  const statusMap = useClaimStatusMap()
+
+  const own = claims.find((claim) => claim.userId === userId)
+  const others = claims.filter((claim) => claim.userId !== userId)
+
+  return (
+    <Group justify="space-between" wrap="nowrap" gap="xs">
+      <Group gap="xs" wrap="nowrap">
+        <Text fw="bold" size="sm">
+          {t('challenge.claim.title')}
+        </Text>
+        <SegmentedControl
+          size="xs"
+          disabled={disabled}
+          value={own?.status ?? 'none'}
+          onChange={(value) => onClaim(value === 'none' ? null : (value as ClaimStatus))}
+          data={[
+            { value: 'none', label: t('challenge.claim.status.none') },
+            ...[...statusMap.entries()].map(([status, props]) => ({
+              value: status,
+              label: (
+                <Group gap={4} wrap="nowrap">
+                  <Icon path={props.icon} size={0.6} color={`var(--mantine-color-${props.color}-6)`} />
+                  <span>{props.label}</span>
+                </Group>
+              ),
+            })),
+          ]}
+        />
+      </Group>
+      <ClaimAvatars claims={others} size={24} />
+    </Group>
+  )
+}
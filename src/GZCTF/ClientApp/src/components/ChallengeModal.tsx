@@ -1,4 +1,5 @@
 import {
+  ActionIcon,
   Button,
   Divider,
   Group,
@@ -11,14 +12,20 @@ import {
   useMantineTheme,
   ScrollAreaAutosize,
   Input,
+  Loader,
+  Tabs,
 } from '@mantine/core'
-import { mdiLightbulbOnOutline, mdiOpenInNew, mdiPackageVariantClosed } from '@mdi/js'
+import { mdiClose, mdiLightbulbOnOutline, mdiOpenInNew, mdiPackageVariantClosed } from '@mdi/js'
 import Icon from '@mdi/react'
-import { FC, useEffect, useState, useMemo } from 'react'
+import dayjs from 'dayjs'
+import { FC, ReactNode, useEffect, useRef, useState, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import { InstanceEntry } from '@Components/InstanceEntry'
 import { ContentPlaceholder, InlineMarkdown, Markdown } from '@Components/MarkdownRenderer'
+import { useLanguage } from '@Utils/I18n'
+import { PendingSubmission } from '@Utils/Outbox'
 import { ChallengeCategoryItemProps } from '@Utils/Shared'
+import { useKeySequences } from '@Hooks/useKeySequences'
 import { ChallengeDetailModel, ChallengeType } from '@Api'
 import classes from '@Styles/ChallengeModal.module.css'
 import misc from '@Styles/Misc.module.css'
@@ -36,6 +43,17 @@ export interface ChallengeModalProps extends ModalProps {
   onDestroy: () => void
   onSubmitFlag: () => void
   onDownload?: () => void
+  /** submissions waiting in the outbox */
+  pending?: PendingSubmission[]
+  onDiscardPending?: (id: string) => void
+  /** seconds left before the flag can be submitted again */
+  submitCooldown?: number
+  /** shown in a tab next to the description */
+  notes?: ReactNode
+  /** work status of the team, shown above the flag input */
+  claim?: ReactNode
+  /** focus the flag input once opened */
+  flagAutoFocus?: boolean
 }
 
 export const ChallengeModal: FC<ChallengeModalProps> = (props) => {
@@ -52,9 +70,16 @@ export const ChallengeModal: FC<ChallengeModalProps> = (props) => {
     onDestroy,
     onDownload,
     onSubmitFlag,
+    pending,
+    onDiscardPending,
+    submitCooldown = 0,
+    notes,
+    claim,
+    flagAutoFocus,
     ...modalProps
   } = props
   const { t } = useTranslation()
+  const { locale } = useLanguage()
   const theme = useMantineTheme()
 
   const placeholders = t('challenge.content.flag_placeholders', {
@@ -66,6 +91,9 @@ export const ChallengeModal: FC<ChallengeModalProps> = (props) => {
     setPlaceholder(placeholders[Math.floor(Math.random() * placeholders.length)])
   }, [challenge])
 
+  const flagRef = useRef<HTMLInputElement>(null)
+  useKeySequences([['/', () => flagRef.current?.focus()]], modalProps.opened)
+
   const isLimitReached = (challenge?.limit && (challenge.attempts ?? 0) >= challenge.limit) || false
 
   const isContainer =
@@ -88,7 +116,7 @@ export const ChallengeModal: FC<ChallengeModalProps> = (props) => {
     </Stack>
   )
 
-  const content = (
+  const description = (
     <ScrollAreaAutosize mah="52vh" maw="100%" scrollbars="y" scrollbarSize={6} type="scroll">
       {challenge?.content === undefined ? (
         <ContentPlaceholder />
@@ -110,6 +138,19 @@ export const ChallengeModal: FC<ChallengeModalProps> = (props) => {
     </ScrollAreaAutosize>
   )
 
+  const content = notes ? (
+    <Tabs defaultValue="description" keepMounted={false}>
+      <Tabs.List mb="xs">
+        <Tabs.Tab value="description">{t('challenge.notes.description')}</Tabs.Tab>
+        <Tabs.Tab value="notes">{t('challenge.notes.title')}</Tabs.Tab>
+      </Tabs.List>
+      <Tabs.Panel value="description">{description}</Tabs.Panel>
+      <Tabs.Panel value="notes">{notes}</Tabs.Panel>
+    </Tabs>
+  ) : (
+    description
+  )
+
   const withAttachment = !!challenge?.context?.url || onDownload
 
   const link = challenge?.context?.url
@@ -179,30 +220,68 @@ export const ChallengeModal: FC<ChallengeModalProps> = (props) => {
       ? t('challenge.content.attempts.placeholder')
       : flag
 
+  const getPendingLabel = (submission: PendingSubmission) => {
+    const time = dayjs(submission.createdAt).locale(locale).format('LTS')
+    if (submission.submitId !== undefined) return t('challenge.content.outbox.judging', { time })
+    if (submission.attempts > 0) return t('challenge.content.outbox.retrying', { time, count: submission.attempts })
+    return t('challenge.content.outbox.queued', { time })
+  }
+
+  const pendingList = pending && pending.length > 0 && (
+    <Stack gap={4}>
+      {pending.map((submission) => (
+        <Group key={submission.id} gap="xs" wrap="nowrap" justify="space-between">
+          <Group gap="xs" wrap="nowrap">
+            <Loader size="xs" color={submission.submitId === undefined ? 'orange' : 'teal'} />
+            <Text size="sm" c="dimmed">
+              {getPendingLabel(submission)}
+            </Text>
+          </Group>
+          {submission.submitId === undefined && onDiscardPending && (
+            <ActionIcon size="sm" variant="subtle" color="red" onClick={() => onDiscardPending(submission.id)}>
+              <Icon path={mdiClose} size={0.7} />
+            </ActionIcon>
+          )}
+        </Group>
+      ))}
+    </Stack>
+  )
+
   const footer = (
     <Stack gap="xs" className={classes.footer}>
       {(withAttachment || withInstance) && <Divider />}
       {attachment}
       {instance}
+      {claim && (
+        <>
+          <Divider />
+          {claim}
+        </>
+      )}
       <Divider label={attemptsInfo} />
+      {pendingList}
       <form
         onSubmit={(e) => {
           e.preventDefault()
-          if (!solved) {
+          if (!solved && submitCooldown <= 0) {
             onSubmitFlag()
           }
         }}
       >
         <Group justify="space-between" gap="sm" align="flex-end">
           <TextInput
+            ref={flagRef}
+            data-autofocus={flagAutoFocus || undefined}
             placeholder={placeholder}
             value={inputValue}
             disabled={disabled || solved || isLimitReached}
             onChange={setFlag}
             classNames={{ root: misc.flexGrow, input: misc.ffmono }}
           />
-          <Button miw="6rem" type="submit" disabled={disabled || solved || isLimitReached}>
-            {t('challenge.button.submit_flag')}
+          <Button miw="6rem" type="submit" disabled={disabled || solved || isLimitReached || submitCooldown > 0}>
+            {submitCooldown > 0
+              ? t('common.button.retry_after', { seconds: submitCooldown })
+              : t('challenge.button.submit_flag')}
           </Button>
         </Group>
       </form>
@@ -0,0 +1,97 @@
+import { ActionIcon, Group, ScrollAreaAutosize, SegmentedControl, Stack, Text, Textarea, Tooltip } from '@mantine/core'
+import { mdiDownload } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import dayjs from 'dayjs'
+import { FC, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Markdown } from '@Components/MarkdownRenderer'
+import { useLanguage } from '@Utils/I18n'
+import { MAX_SCRATCHPAD_LENGTH, NoteScope } from '@Utils/Notes'
+import { NoteTarget, useChallengeNotes, useNotesExport } from '@Hooks/useChallengeNotes'
+import misc from '@Styles/Misc.module.css'
+
+interface ChallengeNotesPanelProps extends NoteTarget {
+  gameTitle: string
+}
+
+export const ChallengeNotesPanel: FC<ChallengeNotesPanelProps> = ({ gameTitle, ...target }) => {
+  const { t } = useTranslation()
+  const { locale } = useLanguage()
+  const [scope, setScope] = useState<NoteScope>('private')
+  const [preview, setPreview] = useState(false)
+
+  const { note, onNoteChange, scratchpad, onScratchpadChange, online } = useChallengeNotes(target)
+  const onExport = useNotesExport(target.gameId, gameTitle)
+
+  const isTeam = scope === 'team'
+  const content = isTeam ? (scratchpad?.content ?? '') : note
+
+  const status = isTeam
+    ? !online
+      ? t('challenge.notes.offline')
+      : scratchpad?.userName
+        ? t('challenge.notes.edited_by', {
+            user: scratchpad.userName,
+            time: dayjs(scratchpad.time).locale(locale).format('SL LTS'),
+          })
+        : t('challenge.notes.team_hint')
+    : t('challenge.notes.private_hint')
+
+  return (
+    <Stack gap="xs">
+      <Group justify="space-between" wrap="nowrap">
+        <Group gap="xs" wrap="nowrap">
+          <SegmentedControl
+            size="xs"
+            value={scope}
+            onChange={(value) => setScope(value as NoteScope)}
+            data={[
+              { value: 'private', label: t('challenge.notes.private') },
+              { value: 'team', label: t('challenge.notes.team') },
+            ]}
+          />
+          <SegmentedControl
+            size="xs"
+            value={preview ? 'preview' : 'edit'}
+            onChange={(value) => setPreview(value === 'preview')}
+            data={[
+              { value: 'edit', label: t('challenge.notes.edit') },
+              { value: 'preview', label: t('challenge.notes.preview') },
+            ]}
+          />
+        </Group>
+        <Tooltip label={t('challenge.notes.export')} position="left">
+          <ActionIcon variant="subtle" aria-label={t('challenge.notes.export')} onClick={onExport}>
+            <Icon path={mdiDownload} size={0.9} />
+          </ActionIcon>
+        </Tooltip>
+      </Group>
+      {preview ? (
+        <ScrollAreaAutosize mah="42vh" maw="100%" scrollbars="y" scrollbarSize={6} type="scroll">
+          {content ? (
+            <Markdown source={content} />
+          ) : (
+            <Text size="sm" c="dimmed">
+              {t('challenge.notes.empty')}
+            </Text>
+          )}
+        </ScrollAreaAutosize>
+      ) : (
+        <Textarea
+          value={content}
+          onChange={(e) => (isTeam ? onScratchpadChange : onNoteChange)(e.currentTarget.value)}
+          disabled={isTeam && !online}
+          maxLength={isTeam ? MAX_SCRATCHPAD_LENGTH : undefined}
+          placeholder={t('challenge.notes.placeholder')}
+          autosize
+          minRows={10}
+          maxRows={16}
+          classNames={{ input: misc.ffmono }}
+        />
+      )}
+      <Text size="xs" c="dimmed">
+        {status}
+      </Text>
+    </Stack>
+  )
+}
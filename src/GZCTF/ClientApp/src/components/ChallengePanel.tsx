@@ -5,39 +5,93 @@ import {
   Divider,
   Group,
   ScrollArea,
+  SegmentedControl,
+  Select,
   SimpleGrid,
   Skeleton,
   Stack,
   Switch,
   Tabs,
   Text,
+  TextInput,
   Title,
+  Tooltip,
 } from '@mantine/core'
-import { useLocalStorage } from '@mantine/hooks'
-import { mdiFileUploadOutline, mdiFlagOutline, mdiPuzzle } from '@mdi/js'
+import { useDebouncedValue, useLocalStorage } from '@mantine/hooks'
+import {
+  mdiFileUploadOutline,
+  mdiFlagOutline,
+  mdiMagnify,
+  mdiPuzzle,
+  mdiViewGridOutline,
+  mdiViewListOutline,
+} from '@mdi/js'
 import { Icon } from '@mdi/react'
 import dayjs from 'dayjs'
-import { FC, useEffect, useState } from 'react'
+import { FC, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useLocation, useParams } from 'react-router'
-import { ChallengeCard } from '@Components/ChallengeCard'
+import { ChallengeCard, ChallengeListItem } from '@Components/ChallengeCard'
 import { Empty } from '@Components/Empty'
 import { GameChallengeModal } from '@Components/GameChallengeModal'
 import { WriteupSubmitModal } from '@Components/WriteupSubmitModal'
-import { useChallengeCategoryLabelMap, SubmissionTypeIconMap } from '@Utils/Shared'
+import { ClaimFilter, matchClaimFilter } from '@Utils/Claims'
+import { challengeHash, useChallengeCategoryLabelMap, SubmissionTypeIconMap } from '@Utils/Shared'
+import { useChallengeClaims } from '@Hooks/useChallengeClaims'
 import { useGame, useGameTeamInfo } from '@Hooks/useGame'
-import { ChallengeInfo, ChallengeCategory, SubmissionType } from '@Api'
+import { useKeySequences } from '@Hooks/useKeySequences'
+import { useOutboxNotifications } from '@Hooks/useSubmissionOutbox'
+import { useUser } from '@Hooks/useUser'
+import api, { ChallengeInfo, ChallengeCategory, SubmissionType } from '@Api'
 import classes from '@Styles/ChallengePanel.module.css'
 
+type ChallengeSort = 'default' | 'score' | 'solved' | 'blood' | 'newest'
+
+interface BoardPrefs {
+  /** matched against the title and the content */
+  keyword: string
+  sort: ChallengeSort
+  /** only challenges with a running instance of the team are shown */
+  instanceRunning: boolean
+  view: 'grid' | 'list'
+}
+
+const DefaultPrefs: BoardPrefs = {
+  keyword: '',
+  sort: 'default',
+  instanceRunning: false,
+  view: 'grid',
+}
+
+const sortChallenges = (challenges: ChallengeInfo[], sort: ChallengeSort) => {
+  // ids break ties, newer challenges have larger ids
+  switch (sort) {
+    case 'score':
+      return [...challenges].sort((a, b) => (b.score ?? 0) - (a.score ?? 0) || a.id! - b.id!)
+    case 'solved':
+      return [...challenges].sort((a, b) => (b.solved ?? 0) - (a.solved ?? 0) || a.id! - b.id!)
+    case 'blood':
+      return [...challenges].sort((a, b) => (a.bloods?.length ?? 0) - (b.bloods?.length ?? 0) || a.id! - b.id!)
+    case 'newest':
+      return [...challenges].sort((a, b) => b.id! - a.id!)
+    default:
+      return challenges
+  }
+}
+
 export const ChallengePanel: FC = () => {
   const { hash } = useLocation()
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
 
-  const { teamInfo } = useGameTeamInfo(numId)
+  const { teamInfo, mutate } = useGameTeamInfo(numId)
   const challenges = teamInfo?.challenges
 
   const { game } = useGame(numId)
+  const { user } = useUser()
+  const { getClaims, onClaim } = useChallengeClaims(numId)
+
+  useOutboxNotifications(numId, () => mutate())
 
   const categories = Object.keys(challenges ?? {})
   const [activeTab, setActiveTab] = useState<ChallengeCategory | 'All'>('All')
@@ -47,37 +101,142 @@ export const ChallengePanel: FC = () => {
     getInitialValueInEffect: false,
   })
 
+  const [claimFilter, setClaimFilter] = useState<ClaimFilter>('all')
+
+  const [stored, setStored] = useLocalStorage<BoardPrefs>({
+    key: `challenge-board-prefs-${numId}`,
+    defaultValue: DefaultPrefs,
+    getInitialValueInEffect: false,
+  })
+  const prefs = { ...DefaultPrefs, ...stored }
+
+  const updatePrefs = (patch: Partial<BoardPrefs>) =>
+    setStored((current) => ({ ...DefaultPrefs, ...current, ...patch }))
+
+  const [keyword] = useDebouncedValue(prefs.keyword.trim().toLowerCase(), 300)
+
+  // contents and instances are only fetched once the search or the instance filter is used,
+  // containers may expire or be destroyed by an admin, so the filter keeps them up to date
+  const { data: briefs } = api.game.useGameChallengeBriefs(
+    numId,
+    { refreshInterval: prefs.instanceRunning ? 10 * 1000 : 0 },
+    !!keyword || prefs.instanceRunning
+  )
+  const briefMap = useMemo(() => new Map(briefs?.map((brief) => [brief.id!, brief])), [briefs])
+
+  const matchBoardFilter = (chal: ChallengeInfo) => {
+    const brief = briefMap.get(chal.id!)
+    if (prefs.instanceRunning && !brief?.instanceRunning) return false
+    return (
+      !keyword || !!chal.title?.toLowerCase().includes(keyword) || !!brief?.content?.toLowerCase().includes(keyword)
+    )
+  }
+
+  const filtered = claimFilter !== 'all' || !!keyword || prefs.instanceRunning
+
   const allChallenges = Object.values(challenges ?? {}).flat()
 
   const currentChallenges =
     challenges &&
-    (activeTab !== 'All' ? (challenges[activeTab] ?? []) : allChallenges).filter(
-      (chal) =>
-        !hideSolved || (teamInfo && teamInfo.rank?.solvedChallenges?.find((c) => c.id === chal.id)) === undefined
+    sortChallenges(
+      (activeTab !== 'All' ? (challenges[activeTab] ?? []) : allChallenges).filter(
+        (chal) =>
+          (!hideSolved || (teamInfo && teamInfo.rank?.solvedChallenges?.find((c) => c.id === chal.id)) === undefined) &&
+          matchClaimFilter(claimFilter, getClaims(chal.id!), user?.userId) &&
+          matchBoardFilter(chal)
+      ),
+      prefs.sort
     )
 
   const [challenge, setChallenge] = useState<ChallengeInfo | null>(null)
   const [detailOpened, setDetailOpened] = useState(false)
+  const [flagAutoFocus, setFlagAutoFocus] = useState(false)
   const { iconMap, colorMap } = SubmissionTypeIconMap(0.8)
   const [writeupSubmitOpened, setWriteupSubmitOpened] = useState(false)
   const challengeCategoryLabelMap = useChallengeCategoryLabelMap()
   const { t } = useTranslation()
 
+  const openChallenge = (chal: ChallengeInfo, focusFlag = false) => {
+    setChallenge(chal)
+    setFlagAutoFocus(focusFlag)
+    setDetailOpened(true)
+    // update hash after modal opened, so don't trigger useEffect
+    window.location.hash = challengeHash(chal.id!, chal.title)
+  }
+
+  // card picked with the keyboard
+  const [selected, setSelected] = useState<number | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+  const selectedIndex = currentChallenges?.findIndex((chal) => chal.id === selected) ?? -1
+
+  const moveSelection = (step: number) => {
+    if (!currentChallenges?.length) return
+    const count = currentChallenges.length
+    const next = selectedIndex < 0 ? (step > 0 ? 0 : count - 1) : (selectedIndex + step + count) % count
+    setSelected(currentChallenges[next].id!)
+  }
+
+  const openSelected = (focusFlag: boolean) => {
+    if (selectedIndex < 0) return false
+    openChallenge(currentChallenges![selectedIndex], focusFlag)
+  }
+
+  useKeySequences(
+    [
+      ['j', () => moveSelection(1)],
+      ['k', () => moveSelection(-1)],
+      ['Enter', () => openSelected(false)],
+      ['/', () => openSelected(true)],
+    ],
+    !detailOpened
+  )
+
+  useEffect(() => {
+    gridRef.current?.querySelector('[data-selected]')?.scrollIntoView({ block: 'nearest' })
+  }, [selected])
+
   useEffect(() => {
     const challId = hash.slice(1).split('-')[0]
     if (challId && allChallenges) {
       const id = parseInt(challId)
       if (isNaN(id) || id < 0) return
-      if (challenge?.id === id) return
+      // the closed modal keeps its challenge, the same one must still open from a new hash,
+      // closing is not a dependency as the cleared hash may only arrive after it
+      if (detailOpened && challenge?.id === id) return
 
       const chal = allChallenges.find((c) => c.id === id)
       if (chal) {
         setChallenge(chal)
+        setFlagAutoFocus(false)
         setDetailOpened(true)
       }
     }
   }, [hash, challenge, allChallenges])
 
+  const BoardItem = prefs.view === 'list' ? ChallengeListItem : ChallengeCard
+
+  const boardItems = currentChallenges?.map((chal) => {
+    const status = teamInfo?.rank?.solvedChallenges?.find((c) => c.id === chal.id)?.type
+    const solved = status !== SubmissionType.Unaccepted && status !== undefined
+
+    return (
+      <BoardItem
+        key={chal.id}
+        challenge={chal}
+        iconMap={iconMap}
+        colorMap={colorMap}
+        onClick={() => {
+          setSelected(chal.id!)
+          openChallenge(chal)
+        }}
+        selected={chal.id === selected}
+        solved={solved}
+        teamId={teamInfo?.rank?.id}
+        claims={getClaims(chal.id!)}
+      />
+    )
+  })
+
   // skeleton for loading
   if (!challenges) {
     return (
@@ -169,6 +328,20 @@ export const ChallengePanel: FC = () => {
             </Text>
           }
         />
+        <Select
+          w="10.5rem"
+          size="sm"
+          value={claimFilter}
+          onChange={(value) => setClaimFilter((value as ClaimFilter) ?? 'all')}
+          allowDeselect={false}
+          aria-label={t('challenge.claim.filter.title')}
+          data={[
+            { value: 'all', label: t('challenge.claim.filter.all') },
+            { value: 'unclaimed', label: t('challenge.claim.filter.unclaimed') },
+            { value: 'mine', label: t('challenge.claim.filter.mine') },
+            { value: 'stuck', label: t('challenge.claim.filter.stuck') },
+          ]}
+        />
         <Tabs
           orientation="vertical"
           variant="pills"
@@ -210,60 +383,93 @@ export const ChallengePanel: FC = () => {
           </Tabs.List>
         </Tabs>
       </Stack>
-      <ScrollArea
-        h="calc(100vh - 6.67rem)"
-        pos="relative"
-        offsetScrollbars
-        scrollbarSize={4}
-        classNames={{ root: classes.scrollArea }}
-      >
-        {/* if rank is 0, means scoreboard not ready yet */}
-        {!teamInfo?.rank?.rank ? (
-          <Center h="calc(100vh - 10rem)">
-            <Stack gap={0}>
-              <Title order={2}>{t('game.content.scoreboard_not_ready.title')}</Title>
-              <Text>{t('game.content.scoreboard_not_ready.comment')}</Text>
-            </Stack>
-          </Center>
-        ) : currentChallenges && currentChallenges.length ? (
-          <SimpleGrid
-            p="xs"
-            w="100%"
-            pt={0}
-            spacing="sm"
-            cols={{ base: 3, w18: 4, w24: 6, w30: 8, w36: 10, w42: 12, w48: 14 }}
-          >
-            {currentChallenges?.map((chal) => {
-              const status = teamInfo?.rank?.solvedChallenges?.find((c) => c.id === chal.id)?.type
-              const solved = status !== SubmissionType.Unaccepted && status !== undefined
-
-              return (
-                <ChallengeCard
-                  key={chal.id}
-                  challenge={chal}
-                  iconMap={iconMap}
-                  colorMap={colorMap}
-                  onClick={() => {
-                    setChallenge(chal)
-                    setDetailOpened(true)
-                    // update hash after modal opened, so don't trigger useEffect
-                    window.location.hash = `#${chal.id}-${encodeURIComponent(chal.title?.replace(/ /g, '-') ?? '')}`
-                  }}
-                  solved={solved}
-                  teamId={teamInfo?.rank?.id}
-                />
-              )
-            })}
-          </SimpleGrid>
-        ) : (
-          <Center h="calc(100vh - 10rem)">
-            <Stack gap={0}>
-              <Title order={2}>{t('game.content.all_solved.title')}</Title>
-              <Text>{t('game.content.all_solved.comment')}</Text>
-            </Stack>
-          </Center>
-        )}
-      </ScrollArea>
+      <Stack gap="xs" className={classes.board}>
+        <Group gap="xs" wrap="nowrap" px="xs">
+          <TextInput
+            size="sm"
+            className={classes.search}
+            value={prefs.keyword}
+            onChange={(e) => updatePrefs({ keyword: e.currentTarget.value })}
+            placeholder={t('challenge.board.search')}
+            leftSection={<Icon path={mdiMagnify} size={0.8} />}
+          />
+          <Select
+            w="11rem"
+            size="sm"
+            value={prefs.sort}
+            onChange={(value) => updatePrefs({ sort: (value as ChallengeSort) ?? 'default' })}
+            allowDeselect={false}
+            aria-label={t('challenge.board.sort.label')}
+            data={(['default', 'score', 'solved', 'blood', 'newest'] as const).map((sort) => ({
+              value: sort,
+              label: t(`challenge.board.sort.${sort}`),
+            }))}
+          />
+          <Switch
+            checked={prefs.instanceRunning}
+            onChange={(e) => updatePrefs({ instanceRunning: e.target.checked })}
+            label={t('challenge.board.instance_running')}
+            classNames={{ body: classes.nowrap }}
+          />
+          <SegmentedControl
+            size="xs"
+            value={prefs.view}
+            onChange={(value) => updatePrefs({ view: value as BoardPrefs['view'] })}
+            data={[
+              { value: 'grid', icon: mdiViewGridOutline },
+              { value: 'list', icon: mdiViewListOutline },
+            ].map(({ value, icon }) => ({
+              value,
+              label: (
+                <Tooltip label={t(`challenge.board.view.${value}`)} withArrow>
+                  <Center>
+                    <Icon path={icon} size={0.8} />
+                  </Center>
+                </Tooltip>
+              ),
+            }))}
+          />
+        </Group>
+        <ScrollArea h="calc(100vh - 9.5rem)" pos="relative" offsetScrollbars scrollbarSize={4}>
+          {/* if rank is 0, means scoreboard not ready yet */}
+          {!teamInfo?.rank?.rank ? (
+            <Center h="calc(100vh - 12rem)">
+              <Stack gap={0}>
+                <Title order={2}>{t('game.content.scoreboard_not_ready.title')}</Title>
+                <Text>{t('game.content.scoreboard_not_ready.comment')}</Text>
+              </Stack>
+            </Center>
+          ) : currentChallenges && currentChallenges.length ? (
+            prefs.view === 'list' ? (
+              <Stack ref={gridRef} p="xs" pt={0} gap="xs">
+                {boardItems}
+              </Stack>
+            ) : (
+              <SimpleGrid
+                ref={gridRef}
+                p="xs"
+                w="100%"
+                pt={0}
+                spacing="sm"
+                cols={{ base: 3, w18: 4, w24: 6, w30: 8, w36: 10, w42: 12, w48: 14 }}
+              >
+                {boardItems}
+              </SimpleGrid>
+            )
+          ) : filtered ? (
+            <Center h="calc(100vh - 12rem)">
+              <Text fw="bold">{t('challenge.board.empty')}</Text>
+            </Center>
+          ) : (
+            <Center h="calc(100vh - 12rem)">
+              <Stack gap={0}>
+                <Title order={2}>{t('game.content.all_solved.title')}</Title>
+                <Text>{t('game.content.all_solved.comment')}</Text>
+              </Stack>
+            </Center>
+          )}
+        </ScrollArea>
+      </Stack>
       {game?.writeupRequired && (
         <WriteupSubmitModal
           opened={writeupSubmitOpened}
@@ -292,6 +498,10 @@ export const ChallengePanel: FC = () => {
           title={challenge?.title ?? ''}
           score={challenge?.score ?? 0}
           challengeId={challenge.id}
+          claims={getClaims(challenge.id)}
+          userId={user?.userId}
+          onClaim={(status) => onClaim(challenge.id!, status)}
+          flagAutoFocus={flagAutoFocus}
         />
       )}
     </>
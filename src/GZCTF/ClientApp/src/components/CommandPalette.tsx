@@ -0,0 +1,274 @@
+import { Badge, Group, Kbd, Modal, ModalProps, ScrollArea, Stack, Text, TextInput, UnstyledButton } from '@mantine/core'
+import {
+  mdiAccountCogOutline,
+  mdiAccountGroupOutline,
+  mdiAccountOutline,
+  mdiChartLine,
+  mdiFileDocumentOutline,
+  mdiFlagOutline,
+  mdiHomeVariantOutline,
+  mdiInformationOutline,
+  mdiMagnify,
+  mdiMonitorEye,
+  mdiNoteTextOutline,
+  mdiPackageVariantClosed,
+  mdiSitemapOutline,
+} from '@mdi/js'
+import { Icon } from '@mdi/react'
+import { FC, KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useLocation, useNavigate } from 'react-router'
+import { RequireRole } from '@Components/WithRole'
+import { challengeHash, useChallengeCategoryLabelMap } from '@Utils/Shared'
+import { OnceSWRConfig } from '@Hooks/useConfig'
+import { useUserRole } from '@Hooks/useUser'
+import api, { ChallengeCategory, ParticipationStatus, Role } from '@Api'
+import classes from '@Styles/CommandPalette.module.css'
+
+const MAX_RESULTS = 50
+
+interface PaletteItem {
+  key: string
+  group: string
+  label: string
+  description?: string
+  icon: string
+  color?: string
+  link: string
+}
+
+/**
+ * Subsequence match of the query, consecutive and word start matches score higher, -1 if not matched
+ */
+const fuzzyScore = (query: string, text: string) => {
+  const target = text.toLowerCase()
+  let score = 0
+  let last = -1
+
+  for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+    const index = target.indexOf(char, last + 1)
+    if (index < 0) return -1
+    score += index === last + 1 ? 3 : index === 0 || /[\s\-_/]/.test(target[index - 1]) ? 2 : 1
+    last = index
+  }
+
+  // prefer shorter texts on ties
+  return score - target.length / 1000
+}
+
+const usePaletteItems = (gameId: number) => {
+  const { t } = useTranslation()
+  const { role } = useUserRole()
+  const challengeCategoryLabelMap = useChallengeCategoryLabelMap()
+
+  const inGame = gameId > 0
+  const { data: game } = api.game.useGameGame(gameId, OnceSWRConfig, inGame)
+  const joined = inGame && game?.status === ParticipationStatus.Accepted
+  const { data: teamInfo } = api.game.useGameChallengesWithTeamInfo(gameId, OnceSWRConfig, joined)
+  const { data: scoreboard } = api.game.useGameScoreboard(gameId, OnceSWRConfig, inGame)
+
+  return useMemo(() => {
+    const pages = t('common.label.palette.pages')
+    const admin = t('common.tab.admin')
+
+    const items: PaletteItem[] = [
+      { key: 'home', label: t('common.tab.home'), icon: mdiHomeVariantOutline, link: '/' },
+      { key: 'posts', label: t('common.tab.post'), icon: mdiNoteTextOutline, link: '/posts' },
+      { key: 'games', label: t('common.tab.game'), icon: mdiFlagOutline, link: '/games' },
+      { key: 'teams', label: t('common.tab.team'), icon: mdiAccountGroupOutline, link: '/teams' },
+      { key: 'profile', label: t('common.tab.account.profile'), icon: mdiAccountOutline, link: '/account/profile' },
+      { key: 'about', label: t('common.tab.about'), icon: mdiInformationOutline, link: '/about' },
+    ].map((item) => ({ ...item, group: pages }))
+
+    if (RequireRole(Role.Admin, role)) {
+      items.push(
+        ...[
+          { key: 'games', label: t('admin.tab.games.index'), icon: mdiFlagOutline },
+          { key: 'teams', label: t('admin.tab.teams'), icon: mdiAccountGroupOutline },
+          { key: 'users', label: t('admin.tab.users'), icon: mdiAccountCogOutline },
+          { key: 'instances', label: t('admin.tab.instances'), icon: mdiPackageVariantClosed },
+          { key: 'logs', label: t('admin.tab.logs'), icon: mdiFileDocumentOutline },
+          { key: 'settings', label: t('admin.tab.settings'), icon: mdiSitemapOutline },
+        ].map((item) => ({ ...item, key: `admin-${item.key}`, group: admin, link: `/admin/${item.key}` }))
+      )
+    }
+
+    if (!inGame) return items
+
+    const base = `/games/${gameId}`
+    const title = game?.title ?? ''
+
+    if (joined) {
+      items.push({
+        key: 'game-challenges',
+        group: title,
+        label: t('game.tab.challenge'),
+        icon: mdiFlagOutline,
+        link: `${base}/challenges`,
+      })
+    }
+    items.push({
+      key: 'game-scoreboard',
+      group: title,
+      label: t('game.tab.scoreboard'),
+      icon: mdiChartLine,
+      link: `${base}/scoreboard`,
+    })
+    if (RequireRole(Role.Monitor, role)) {
+      items.push({
+        key: 'game-monitor',
+        group: title,
+        label: t('game.tab.monitor.index'),
+        icon: mdiMonitorEye,
+        link: `${base}/monitor/events`,
+      })
+    }
+
+    Object.entries(teamInfo?.challenges ?? {}).forEach(([category, list]) => {
+      const data = challengeCategoryLabelMap.get(category as ChallengeCategory)
+      list.forEach((chal) =>
+        items.push({
+          key: `challenge-${chal.id}`,
+          group: t('common.label.challenge'),
+          label: chal.title ?? '',
+          description: `${data?.name ?? category} · ${chal.score} pts`,
+          icon: data?.icon ?? mdiFlagOutline,
+          color: data?.color,
+          link: `${base}/challenges${challengeHash(chal.id!, chal.title)}`,
+        })
+      )
+    })
+
+    scoreboard?.items?.forEach((team) =>
+      items.push({
+        key: `team-${team.id}`,
+        group: t('common.label.team'),
+        label: team.name ?? '',
+        description: `#${team.rank} · ${team.score} pts`,
+        icon: mdiAccountGroupOutline,
+        link: `${base}/scoreboard#team-${team.id}`,
+      })
+    )
+
+    return items
+  }, [t, role, challengeCategoryLabelMap, inGame, gameId, game, joined, teamInfo, scoreboard])
+}
+
+const PaletteContent: FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useTranslation()
+  const { pathname } = useLocation()
+  const navigate = useNavigate()
+
+  const gameId = parseInt(pathname.match(/^\/games\/(\d+)/)?.[1] ?? '-1')
+  const items = usePaletteItems(gameId)
+
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const results = useMemo(() => {
+    if (!query.trim()) return items.slice(0, MAX_RESULTS)
+
+    return items
+      .map((item) => ({ item, score: Math.max(fuzzyScore(query, item.label), fuzzyScore(query, item.group) - 2) }))
+      .filter(({ score }) => score >= 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ item }) => item)
+  }, [items, query])
+
+  useEffect(() => setActive(0), [query])
+
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active]')?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  const onSelect = (item?: PaletteItem) => {
+    if (!item) return
+    onClose()
+    navigate(item.link)
+  }
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault()
+      const step = event.key === 'ArrowDown' ? 1 : -1
+      setActive((current) => (current + step + results.length) % Math.max(results.length, 1))
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      onSelect(results[active])
+    }
+  }
+
+  return (
+    <Stack gap={0}>
+      <TextInput
+        data-autofocus
+        size="md"
+        variant="unstyled"
+        value={query}
+        onChange={(e) => setQuery(e.currentTarget.value)}
+        onKeyDown={onKeyDown}
+        placeholder={t('common.label.palette.placeholder')}
+        leftSection={<Icon path={mdiMagnify} size={1} />}
+        classNames={{ root: classes.search }}
+      />
+      <ScrollArea.Autosize mah="50vh" type="scroll" viewportRef={listRef}>
+        {results.length === 0 ? (
+          <Text ta="center" c="dimmed" py="md">
+            {t('common.label.palette.empty')}
+          </Text>
+        ) : (
+          <Stack gap={0} p={4}>
+            {results.map((item, idx) => (
+              <UnstyledButton
+                key={item.key}
+                className={classes.item}
+                data-active={idx === active || undefined}
+                onMouseEnter={() => setActive(idx)}
+                onClick={() => onSelect(item)}
+              >
+                <Group gap="sm" wrap="nowrap">
+                  <Icon path={item.icon} size={0.9} color={item.color && `var(--mantine-color-${item.color}-5)`} />
+                  <Stack gap={0} className={classes.label}>
+                    <Text size="sm" fw={500} truncate>
+                      {item.label}
+                    </Text>
+                    {item.description && (
+                      <Text size="xs" c="dimmed" truncate>
+                        {item.description}
+                      </Text>
+                    )}
+                  </Stack>
+                  <Badge size="sm" variant="light" color="gray" maw="40%">
+                    {item.group}
+                  </Badge>
+                </Group>
+              </UnstyledButton>
+            ))}
+          </Stack>
+        )}
+      </ScrollArea.Autosize>
+      <Group gap="md" justify="flex-end" px="sm" py={6} className={classes.footer}>
+        <Text size="xs" c="dimmed">
+          <Kbd size="xs">↑</Kbd> <Kbd size="xs">↓</Kbd> {t('common.label.palette.navigate')}
+        </Text>
+        <Text size="xs" c="dimmed">
+          <Kbd size="xs">Enter</Kbd> {t('common.label.palette.open')}
+        </Text>
+        <Text size="xs" c="dimmed">
+          <Kbd size="xs">Esc</Kbd> {t('common.label.palette.close')}
+        </Text>
+      </Group>
+    </Stack>
+  )
+}
+
+/**
+ * Search pages, challenges and teams of the current game and jump to them
+ */
+export const CommandPalette: FC<ModalProps> = (props) => (
+  <Modal size="lg" padding={0} yOffset="12vh" withCloseButton={false} {...props}>
+    <PaletteContent onClose={props.onClose} />
+  </Modal>
+)
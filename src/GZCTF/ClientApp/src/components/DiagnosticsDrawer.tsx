@@ -0,0 +1,136 @@
+import { Badge, Button, Drawer, DrawerProps, Group, ScrollArea, Stack, Table, Text, Title } from '@mantine/core'
+import { useInterval } from '@mantine/hooks'
+import { mdiDeleteOutline, mdiExport } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import dayjs from 'dayjs'
+import { FC, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useHubStates } from '@Components/HubProvider'
+import { HubStatusIndicator } from '@Components/HubStatusIndicator'
+import { useWsrx } from '@Components/WsrxProvider'
+import { openBlob } from '@Utils/ApiHelper'
+import { buildDiagnosticsBundle, clearRequestRecords } from '@Utils/Diagnostics'
+import { useRequestRecords } from '@Hooks/useDiagnostics'
+
+const statusColor = (status: number) => (status === 0 || status >= 500 ? 'red' : status >= 400 ? 'orange' : 'teal')
+
+export const DiagnosticsDrawer: FC<DrawerProps> = (props) => {
+  const { t } = useTranslation()
+  const records = useRequestRecords()
+  const getHubStates = useHubStates()
+  const { wsrxState, wsrxOptions } = useWsrx()
+
+  const [hubs, setHubs] = useState(getHubStates)
+  const interval = useInterval(() => setHubs(getHubStates()), 1000)
+
+  useEffect(() => {
+    if (!props.opened) return
+    setHubs(getHubStates())
+    interval.start()
+    return interval.stop
+  }, [props.opened, getHubStates])
+
+  const onExport = () => {
+    const bundle = buildDiagnosticsBundle({
+      hubs: getHubStates(),
+      wsrx: { state: wsrxState, api: wsrxOptions.api, allowLan: wsrxOptions.allowLan },
+    })
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+    openBlob(blob, `diagnostics_${dayjs().format('YYYYMMDD_HHmmss')}.json`)
+  }
+
+  return (
+    <Drawer position="right" size="xl" title={t('common.diagnostics.title')} {...props}>
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          {t('common.diagnostics.description')}
+        </Text>
+        <Group justify="flex-end">
+          <Button
+            variant="outline"
+            leftSection={<Icon path={mdiDeleteOutline} size={1} />}
+            onClick={clearRequestRecords}
+          >
+            {t('common.diagnostics.button.clear')}
+          </Button>
+          <Button leftSection={<Icon path={mdiExport} size={1} />} onClick={onExport}>
+            {t('common.diagnostics.button.export')}
+          </Button>
+        </Group>
+
+        <Title order={5}>{t('common.diagnostics.connections')}</Title>
+        <Stack gap="xs">
+          {hubs.length === 0 && (
+            <Text size="sm" c="dimmed">
+              {t('common.diagnostics.no_hubs')}
+            </Text>
+          )}
+          {hubs.map((hub) => (
+            <Group key={hub.url} justify="space-between" wrap="nowrap">
+              <Text ff="monospace" size="sm" truncate>
+                {hub.url}
+              </Text>
+              <Group gap="xs" wrap="nowrap">
+                {hub.reconnects > 0 && (
+                  <Text size="xs" c="dimmed">
+                    {t('common.diagnostics.reconnects', { count: hub.reconnects })}
+                  </Text>
+                )}
+                <HubStatusIndicator state={hub.state} size="md" />
+              </Group>
+            </Group>
+          ))}
+          <Group justify="space-between" wrap="nowrap">
+            <Text ff="monospace" size="sm" truncate>
+              WSRX {wsrxOptions.api}
+            </Text>
+            <Badge variant="light" color="gray">
+              {wsrxState}
+            </Badge>
+          </Group>
+        </Stack>
+
+        <Title order={5}>{t('common.diagnostics.requests')}</Title>
+        {records.length === 0 ? (
+          <Text size="sm" c="dimmed">
+            {t('common.content.no_data')}
+          </Text>
+        ) : (
+          <ScrollArea type="auto" offsetScrollbars scrollbarSize={4}>
+            <Table fz="xs" striped verticalSpacing={4}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>{t('common.label.time')}</Table.Th>
+                  <Table.Th>{t('common.diagnostics.label.request')}</Table.Th>
+                  <Table.Th>{t('common.diagnostics.label.status')}</Table.Th>
+                  <Table.Th>{t('common.diagnostics.label.latency')}</Table.Th>
+                  <Table.Th>{t('common.diagnostics.label.language')}</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {records.map((record, i) => (
+                  <Table.Tr key={`${record.time}@${i}`}>
+                    <Table.Td ff="monospace">{dayjs(record.time).format('HH:mm:ss')}</Table.Td>
+                    <Table.Td ff="monospace" style={{ wordBreak: 'break-all' }}>
+                      <Text span fw="bold" size="xs" ff="monospace">
+                        {record.method}
+                      </Text>{' '}
+                      {record.path}
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge size="sm" color={statusColor(record.status)}>
+                        {record.error ?? record.status}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td ff="monospace">{record.latency}ms</Table.Td>
+                    <Table.Td ff="monospace">{record.language}</Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+      </Stack>
+    </Drawer>
+  )
+}
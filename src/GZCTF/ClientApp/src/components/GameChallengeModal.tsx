@@ -1,15 +1,21 @@
 import { ModalProps } from '@mantine/core'
 import { useInputState } from '@mantine/hooks'
 import { notifications, showNotification, updateNotification } from '@mantine/notifications'
-import { mdiCheck, mdiClose, mdiLoading } from '@mdi/js'
+import { mdiCheck, mdiClose, mdiCloudUploadOutline, mdiLoading } from '@mdi/js'
 import { Icon } from '@mdi/react'
 import React, { FC, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { ChallengeClaimControl } from '@Components/ChallengeClaims'
 import { ChallengeModal } from '@Components/ChallengeModal'
+import { ChallengeNotesPanel } from '@Components/ChallengeNotesPanel'
+import { ChallengeClaimModel, ClaimStatus } from '@Utils/Claims'
 import { encryptApiData } from '@Utils/Crypto'
+import { isRetryableError } from '@Utils/Outbox'
+import { useRateLimit } from '@Utils/RateLimit'
 import { showErrorMsg } from '@Utils/Shared'
 import { ChallengeCategoryItemProps } from '@Utils/Shared'
 import { useConfig } from '@Hooks/useConfig'
+import { useSubmissionOutbox } from '@Hooks/useSubmissionOutbox'
 import api, { AnswerResult, ChallengeType, SubmissionType } from '@Api'
 
 interface GameChallengeModalProps extends ModalProps {
@@ -21,10 +27,28 @@ interface GameChallengeModalProps extends ModalProps {
   score: number
   challengeId: number
   status?: SubmissionType
+  /** work status of the team on this challenge */
+  claims?: ChallengeClaimModel[]
+  userId?: string | null
+  onClaim?: (status: ClaimStatus | null) => void
+  flagAutoFocus?: boolean
 }
 
 export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
-  const { gameId, gameTitle, gameEnded, challengeId, cateData, status, title, score, ...modalProps } = props
+  const {
+    gameId,
+    gameTitle,
+    gameEnded,
+    challengeId,
+    cateData,
+    status,
+    title,
+    score,
+    claims,
+    userId,
+    onClaim,
+    ...modalProps
+  } = props
 
   const { data: challenge, mutate } = api.game.useGameGetChallenge(gameId, challengeId, {
     refreshInterval: 120 * 1000,
@@ -32,6 +56,8 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
 
   const { config } = useConfig()
   const { t } = useTranslation()
+  const { pending, enqueue, discard } = useSubmissionOutbox(gameId, challengeId)
+  const submitCooldown = useRateLimit('submit')
 
   const wrongFlagHints = t('challenge.content.wrong_flag_hints', {
     returnObjects: true,
@@ -61,6 +87,7 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
           instanceEntry: res.data.entry,
         },
       })
+      api.game.mutateGameChallengeBriefs(gameId)
       showNotification({
         color: 'teal',
         title: t('challenge.notification.instance.created.title'),
@@ -89,6 +116,7 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
           instanceEntry: null,
         },
       })
+      api.game.mutateGameChallengeBriefs(gameId)
       showNotification({
         color: 'teal',
         title: t('challenge.notification.instance.destroyed.title'),
@@ -129,6 +157,25 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
     }
   }
 
+  const queueSubmission = async (encryptedFlag: string, submitId?: number) => {
+    await enqueue({
+      gameId,
+      challengeId,
+      challengeTitle: challenge?.title ?? title,
+      flag: encryptedFlag,
+      submitId,
+    })
+    setDisabled(false)
+    setFlag('')
+    notifications.hide('flag-submitted')
+    showNotification({
+      color: 'orange',
+      title: t('challenge.notification.flag.queued.title'),
+      message: t('challenge.notification.flag.queued.message'),
+      icon: <Icon path={mdiCloudUploadOutline} size={1} />,
+    })
+  }
+
   const onSubmit = async () => {
     if (!challengeId || !flag) {
       showNotification({
@@ -141,9 +188,23 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
 
     setDisabled(true)
 
+    let encryptedFlag: string
+    try {
+      encryptedFlag = await encryptApiData(t, flag.trim(), config.apiPublicKey)
+    } catch (e) {
+      showErrorMsg(e, t)
+      setDisabled(false)
+      return
+    }
+
+    if (!navigator.onLine) {
+      await queueSubmission(encryptedFlag)
+      return
+    }
+
     try {
       const res = await api.game.gameSubmit(gameId, challengeId, {
-        flag: await encryptApiData(t, flag.trim(), config.apiPublicKey),
+        flag: encryptedFlag,
       })
       setSubmitId(res.data)
       notifications.clean()
@@ -165,6 +226,10 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
       })
       return
     } catch (e) {
+      if (isRetryableError(e)) {
+        await queueSubmission(encryptedFlag)
+        return
+      }
       showErrorMsg(e, t)
       setDisabled(false)
       return
@@ -184,10 +249,15 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
           clearInterval(polling)
         }
       } catch (err) {
+        clearInterval(polling)
+        if (isRetryableError(err)) {
+          // the flag has been received, let the outbox wait for the result
+          await queueSubmission('', submitId)
+          return
+        }
         setDisabled(false)
         setFlag('')
         showErrorMsg(err, t)
-        clearInterval(polling)
       }
     }, 500)
 
@@ -244,13 +314,19 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
     }
   }
 
+  const solved = (status !== SubmissionType.Unaccepted && status !== undefined) || solvedChallengeId === challengeId
+
+  const claimControl = claims && onClaim && !solved && !gameEnded && (
+    <ChallengeClaimControl claims={claims} userId={userId} onClaim={onClaim} />
+  )
+
   return (
     <ChallengeModal
       {...modalProps}
       gameTitle={gameTitle}
       challenge={challenge ?? { title, score }}
       cateData={cateData}
-      solved={(status !== SubmissionType.Unaccepted && status !== undefined) || solvedChallengeId === challengeId}
+      solved={solved}
       flag={flag}
       setFlag={setFlag}
       onCreate={onCreate}
@@ -258,6 +334,19 @@ export const GameChallengeModal: FC<GameChallengeModalProps> = (props) => {
       onSubmitFlag={onSubmit}
       disabled={disabled || isLimitReached}
       onExtend={onExtend}
+      pending={pending}
+      onDiscardPending={discard}
+      submitCooldown={submitCooldown}
+      claim={claimControl}
+      notes={
+        <ChallengeNotesPanel
+          gameId={gameId}
+          gameTitle={gameTitle}
+          challengeId={challengeId}
+          challengeTitle={challenge?.title ?? title}
+          category={challenge?.category ?? cateData.name}
+        />
+      }
     />
   )
 }
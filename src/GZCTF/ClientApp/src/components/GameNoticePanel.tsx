@@ -1,17 +1,22 @@
-import { Card, Center, List, ScrollArea, SegmentedControl, Stack, Text, useMantineTheme } from '@mantine/core'
+import { Card, Center, Group, List, ScrollArea, SegmentedControl, Stack, Text, useMantineTheme } from '@mantine/core'
 import { showNotification } from '@mantine/notifications'
 import { Icon } from '@mdi/react'
-import * as signalR from '@microsoft/signalr'
 import dayjs from 'dayjs'
 import { TFunction } from 'i18next'
 import { FC, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useParams } from 'react-router'
 import { Empty } from '@Components/Empty'
+import { useHubEvent } from '@Components/HubProvider'
+import { HubStatusIndicator } from '@Components/HubStatusIndicator'
 import { InlineMarkdown } from '@Components/MarkdownRenderer'
+import { NoticeAlertPopover } from '@Components/NoticeAlertPopover'
 import { useLanguage } from '@Utils/I18n'
 import { NoticTypeIconMap } from '@Utils/Shared'
 import { OnceSWRConfig } from '@Hooks/useConfig'
+import { useGame } from '@Hooks/useGame'
+import { mergeByKey, useHubBackfill } from '@Hooks/useHubBackfill'
+import { useNoticeAlerts } from '@Hooks/useNoticeAlerts'
 import api, { GameNotice, NoticeType } from '@Api'
 import misc from '@Styles/Misc.module.css'
 import typoClasses from '@Styles/Typography.module.css'
@@ -43,7 +48,7 @@ const ApplyFilter = (notices: GameNotice[], filter: NoticeFilter) => {
   }
 }
 
-const formatNotice = (t: TFunction, notice: GameNotice) => {
+export const formatNotice = (t: TFunction, notice: GameNotice) => {
   switch (notice.type) {
     case NoticeType.Normal:
       return notice.values.at(-1) || ''
@@ -79,6 +84,7 @@ const formatNotice = (t: TFunction, notice: GameNotice) => {
 }
 
 const PANEL_HEIGHT = 'calc(100vh - 25rem)'
+const NOTICE_PAGE_SIZE = 100
 
 export const GameNoticePanel: FC = () => {
   const { id } = useParams()
@@ -94,54 +100,58 @@ export const GameNoticePanel: FC = () => {
   const theme = useMantineTheme()
 
   const { data: notices } = api.game.useGameNotices(numId, {}, OnceSWRConfig)
+  const { game } = useGame(numId)
+  const { settings, updateSettings, setDesktop, alertNotice } = useNoticeAlerts(game?.title)
 
   useEffect(() => {
     newNotices.current = []
   }, [notices])
 
-  useEffect(() => {
-    if (id) {
-      const connection = new signalR.HubConnectionBuilder()
-        .withUrl(`/hub/user?game=${numId}`)
-        .withHubProtocol(new signalR.JsonHubProtocol())
-        .withAutomaticReconnect()
-        .configureLogging(signalR.LogLevel.None)
-        .build()
-
-      connection.serverTimeoutInMilliseconds = 60 * 1000 * 60 * 2
-
-      connection.on('ReceivedGameNotice', (message: GameNotice) => {
-        newNotices.current = [message, ...newNotices.current]
-
-        if (message.type === NoticeType.NewChallenge || message.type === NoticeType.NewHint) {
-          showNotification({
-            color: 'yellow',
-            message: formatNotice(t, message),
-            autoClose: 5000,
-          })
-        }
-
-        if (message.type === NoticeType.Normal) {
-          showNotification({
-            color: theme.primaryColor,
-            message: formatNotice(t, message),
-            autoClose: 5000,
-          })
-        }
-
-        update(new Date(message.time))
-      })
+  const { state: hubState, reconnects } = useHubEvent(
+    'ReceivedGameNotice',
+    (message) => {
+      newNotices.current = [message, ...newNotices.current]
 
-      connection.start().catch((error) => {
-        console.error(error)
-      })
+      if (message.type === NoticeType.NewChallenge || message.type === NoticeType.NewHint) {
+        showNotification({
+          color: 'yellow',
+          message: formatNotice(t, message),
+          autoClose: 5000,
+        })
+      }
 
-      return () => {
-        connection.stop().catch((err) => {
-          console.error(err)
+      if (message.type === NoticeType.Normal) {
+        showNotification({
+          color: theme.primaryColor,
+          message: formatNotice(t, message),
+          autoClose: 5000,
         })
       }
-    }
+
+      update(new Date(message.time))
+      alertNotice(message, formatNotice(t, message))
+    },
+    { game: numId, enabled: !!id }
+  )
+
+  useHubBackfill({
+    reconnects,
+    since: Math.max(0, ...newNotices.current.map((n) => n.time), ...(notices ?? []).map((n) => n.time)),
+    pageSize: NOTICE_PAGE_SIZE,
+    fetchPage: async (skip, count) => (await api.game.gameNotices(numId, { count, skip })).data,
+    getTime: (notice) => notice.time,
+    // announcements are listed first regardless of their time
+    unordered: true,
+    onBackfill: (items) => {
+      newNotices.current = mergeByKey(
+        newNotices.current,
+        items,
+        (notice) => notice.id.toString(),
+        (notice) => notice.time,
+        notices
+      )
+      update(new Date())
+    },
   })
 
   const allNotices = [...newNotices.current, ...(notices ?? [])]
@@ -156,20 +166,25 @@ export const GameNoticePanel: FC = () => {
   return (
     <Card shadow="sm" w="100%">
       <Stack gap="xs">
-        <SegmentedControl
-          value={filter}
-          color={theme.primaryColor}
-          fullWidth
-          bg="transparent"
-          fw={500}
-          onChange={(value) => setFilter(value as NoticeFilter)}
-          data={[
-            { value: NoticeFilter.All, label: t('game.label.notice_type.all') },
-            { value: NoticeFilter.Game, label: t('game.label.notice_type.game') },
-            { value: NoticeFilter.Events, label: t('game.label.notice_type.events') },
-            { value: NoticeFilter.Challenge, label: t('game.label.notice_type.challenge') },
-          ]}
-        />
+        <Group wrap="nowrap" gap="xs">
+          <SegmentedControl
+            value={filter}
+            color={theme.primaryColor}
+            fullWidth
+            bg="transparent"
+            fw={500}
+            className={misc.flexGrow}
+            onChange={(value) => setFilter(value as NoticeFilter)}
+            data={[
+              { value: NoticeFilter.All, label: t('game.label.notice_type.all') },
+              { value: NoticeFilter.Game, label: t('game.label.notice_type.game') },
+              { value: NoticeFilter.Events, label: t('game.label.notice_type.events') },
+              { value: NoticeFilter.Challenge, label: t('game.label.notice_type.challenge') },
+            ]}
+          />
+          <NoticeAlertPopover settings={settings} onChange={updateSettings} onDesktopChange={setDesktop} />
+          <HubStatusIndicator state={hubState} compact />
+        </Group>
         {filteredNotices.length ? (
           <ScrollArea offsetScrollbars scrollbarSize={0} h={PANEL_HEIGHT}>
             <List size="sm" spacing={3} classNames={{ itemWrapper: misc.alignNormal }}>
@@ -0,0 +1,311 @@
+import * as signalR from '@microsoft/signalr'
+import { createContext, use, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import { ChallengeClaimModel } from '@Utils/Claims'
+import { ScratchpadModel } from '@Utils/Notes'
+import { ScoreboardUpdate } from '@Utils/Scoreboard'
+import { GameEvent, GameNotice, LogMessageModel, Submission } from '@Api'
+
+export type HubKind = 'user' | 'monitor' | 'admin'
+
+/**
+ * Server to client methods of every hub, keyed by method name
+ */
+export interface HubEvents {
+  ReceivedGameNotice: GameNotice
+  ReceivedScoreboardUpdate: ScoreboardUpdate
+  ReceivedScratchpad: ScratchpadModel
+  ReceivedClaim: ChallengeClaimModel
+  ReceivedGameEvent: GameEvent
+  ReceivedSubmissions: Submission
+  ReceivedLog: LogMessageModel
+}
+
+export type HubEventName = keyof HubEvents
+
+const HubEventKind: Record<HubEventName, HubKind> = {
+  ReceivedGameNotice: 'user',
+  ReceivedScoreboardUpdate: 'user',
+  ReceivedScratchpad: 'user',
+  ReceivedClaim: 'user',
+  ReceivedGameEvent: 'monitor',
+  ReceivedSubmissions: 'monitor',
+  ReceivedLog: 'admin',
+}
+
+const HubServerTimeout: Record<HubKind, number> = {
+  user: 60 * 1000 * 60 * 2,
+  monitor: 60 * 1000 * 60 * 2,
+  admin: 60 * 1000 * 60 * 24,
+}
+
+// keep the connection for a while after the last subscriber leaves,
+// so switching between pages of the same hub does not reconnect
+const RELEASE_DELAY = 5000
+
+export const getHubUrl = (kind: HubKind, game?: number) =>
+  kind === 'admin' ? '/hub/admin' : `/hub/${kind}?game=${game ?? -1}`
+
+// retry to connect after the automatic reconnection gives up
+const RESTART_DELAY = 30 * 1000
+
+type StateListener = () => void
+
+export interface HubSnapshot {
+  state: signalR.HubConnectionState
+  /** count of successful reconnections, changes after every connection gap */
+  reconnects: number
+}
+
+const DisconnectedSnapshot: HubSnapshot = {
+  state: signalR.HubConnectionState.Disconnected,
+  reconnects: 0,
+}
+
+export type HubConnectionFactory = (url: string) => signalR.HubConnection
+
+const createConnection: HubConnectionFactory = (url) =>
+  new signalR.HubConnectionBuilder()
+    .withUrl(url)
+    .withHubProtocol(new signalR.JsonHubProtocol())
+    .withAutomaticReconnect()
+    .configureLogging(import.meta.env.DEV ? signalR.LogLevel.Information : signalR.LogLevel.Warning)
+    .build()
+
+let connectionFactory = createConnection
+
+/**
+ * Replace how hub connections are created, used by the mock backend
+ */
+export const setHubConnectionFactory = (factory: HubConnectionFactory) => {
+  connectionFactory = factory
+}
+
+class HubEntry {
+  readonly connection: signalR.HubConnection
+  private refs = 0
+  private disposed = false
+  private connectedOnce = false
+  private releaseTimer: number | null = null
+  private restartTimer: number | null = null
+  private starting: Promise<void> | null = null
+  private listeners = new Set<StateListener>()
+  private _snapshot: HubSnapshot = {
+    state: signalR.HubConnectionState.Disconnected,
+    reconnects: 0,
+  }
+
+  constructor(
+    readonly url: string,
+    kind: HubKind,
+    private readonly dispose: (entry: HubEntry) => void
+  ) {
+    this.connection = connectionFactory(url)
+
+    this.connection.serverTimeoutInMilliseconds = HubServerTimeout[kind]
+
+    this.connection.onreconnecting(() => this.setState(signalR.HubConnectionState.Reconnecting))
+    this.connection.onreconnected(() => this.setState(signalR.HubConnectionState.Connected, true))
+    this.connection.onclose(() => {
+      this.setState(signalR.HubConnectionState.Disconnected)
+      this.scheduleRestart()
+    })
+  }
+
+  get snapshot() {
+    return this._snapshot
+  }
+
+  private setState(state: signalR.HubConnectionState, reconnected = false) {
+    if (this._snapshot.state === state && !reconnected) return
+    this._snapshot = {
+      state,
+      reconnects: this._snapshot.reconnects + (reconnected ? 1 : 0),
+    }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  subscribe(listener: StateListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  acquire() {
+    this.refs++
+    if (this.releaseTimer !== null) {
+      window.clearTimeout(this.releaseTimer)
+      this.releaseTimer = null
+    }
+    void this.start()
+  }
+
+  release() {
+    this.refs = Math.max(0, this.refs - 1)
+    if (this.refs > 0 || this.releaseTimer !== null) return
+
+    this.releaseTimer = window.setTimeout(() => {
+      this.releaseTimer = null
+      if (this.refs > 0) return
+      this.disposed = true
+      this.clearRestart()
+      this.dispose(this)
+      this.connection.stop().catch((err) => console.error(err))
+    }, RELEASE_DELAY)
+  }
+
+  /** try to connect again right now if the connection is lost */
+  retry() {
+    if (this.refs === 0 || this.disposed) return
+    this.clearRestart()
+    void this.start()
+  }
+
+  private clearRestart() {
+    if (this.restartTimer === null) return
+    window.clearTimeout(this.restartTimer)
+    this.restartTimer = null
+  }
+
+  private scheduleRestart() {
+    if (this.refs === 0 || this.disposed || this.restartTimer !== null) return
+    this.restartTimer = window.setTimeout(() => {
+      this.restartTimer = null
+      this.retry()
+    }, RESTART_DELAY)
+  }
+
+  private start() {
+    if (this.starting || this.connection.state !== signalR.HubConnectionState.Disconnected) return this.starting
+
+    this.setState(signalR.HubConnectionState.Connecting)
+    this.starting = this.connection
+      .start()
+      .then(() => {
+        this.setState(signalR.HubConnectionState.Connected, this.connectedOnce)
+        this.connectedOnce = true
+      })
+      .catch((err) => {
+        console.error(err)
+        this.setState(signalR.HubConnectionState.Disconnected)
+        this.scheduleRestart()
+      })
+      .finally(() => {
+        this.starting = null
+      })
+
+    return this.starting
+  }
+}
+
+class HubManager {
+  private entries = new Map<string, HubEntry>()
+
+  get(kind: HubKind, game?: number) {
+    const url = getHubUrl(kind, game)
+    let entry = this.entries.get(url)
+    if (!entry) {
+      entry = new HubEntry(url, kind, (e) => {
+        if (this.entries.get(e.url) === e) this.entries.delete(e.url)
+      })
+      this.entries.set(url, entry)
+    }
+    return entry
+  }
+
+  retryAll() {
+    this.entries.forEach((entry) => entry.retry())
+  }
+
+  describe() {
+    return [...this.entries.values()].map((entry) => ({ url: entry.url, ...entry.snapshot }))
+  }
+}
+
+const HubContext = createContext<HubManager | null>(null)
+
+export const HubProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
+  const manager = useMemo(() => new HubManager(), [])
+
+  useEffect(() => {
+    const onOnline = () => manager.retryAll()
+    window.addEventListener('online', onOnline)
+    return () => window.removeEventListener('online', onOnline)
+  }, [manager])
+
+  return <HubContext.Provider value={manager}>{children}</HubContext.Provider>
+}
+
+const useHubManager = () => {
+  const context = use(HubContext)
+  if (!context) {
+    throw new Error('useHub must be used within a HubProvider')
+  }
+  return context
+}
+
+/**
+ * Read the state of every open hub connection, used by the diagnostics
+ */
+export const useHubStates = () => {
+  const manager = useHubManager()
+  return useCallback(() => manager.describe(), [manager])
+}
+
+export interface HubOptions {
+  /** game id, required by the user and monitor hubs */
+  game?: number
+  /** set to false to release the connection */
+  enabled?: boolean
+}
+
+const noopSubscribe = () => () => {}
+
+/**
+ * Hold a shared connection to the hub and return its current state,
+ * `reconnects` increases every time the connection comes back after a gap
+ */
+export const useHub = (kind: HubKind, options: HubOptions = {}) => {
+  const { game, enabled = true } = options
+  const manager = useHubManager()
+  const entry = useMemo(() => (enabled ? manager.get(kind, game) : null), [manager, kind, game, enabled])
+
+  useEffect(() => {
+    if (!entry) return
+    entry.acquire()
+    return () => entry.release()
+  }, [entry])
+
+  const subscribe = useCallback(
+    (listener: StateListener) => (entry ? entry.subscribe(listener) : noopSubscribe()),
+    [entry]
+  )
+  const { state, reconnects } = useSyncExternalStore(subscribe, () => entry?.snapshot ?? DisconnectedSnapshot)
+
+  return { connection: entry?.connection ?? null, state, reconnects }
+}
+
+/**
+ * Subscribe to a hub method, the hub is chosen by the method name
+ */
+export const useHubEvent = <E extends HubEventName>(
+  event: E,
+  handler: (message: HubEvents[E]) => void,
+  options: HubOptions = {}
+) => {
+  const { connection, state, reconnects } = useHub(HubEventKind[event], options)
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  })
+
+  useEffect(() => {
+    if (!connection) return
+    const listener = (message: HubEvents[E]) => handlerRef.current(message)
+    connection.on(event, listener)
+    return () => connection.off(event, listener)
+  }, [connection, event])
+
+  return { state, reconnects }
+}
@@ -0,0 +1,43 @@
+import { Badge, BadgeProps, ColorSwatch, Tooltip } from '@mantine/core'
+import { HubConnectionState } from '@microsoft/signalr'
+import { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import tooltipClasses from '@Styles/Tooltip.module.css'
+
+interface HubStatusIndicatorProps extends BadgeProps {
+  state: HubConnectionState
+  /** only show a colored dot with the status in tooltip */
+  compact?: boolean
+}
+
+const useHubStatus = (state: HubConnectionState) => {
+  const { t } = useTranslation()
+
+  switch (state) {
+    case HubConnectionState.Connected:
+      return { color: 'green', label: t('common.hub.connected') }
+    case HubConnectionState.Connecting:
+    case HubConnectionState.Reconnecting:
+      return { color: 'yellow', label: t('common.hub.reconnecting') }
+    default:
+      return { color: 'red', label: t('common.hub.offline') }
+  }
+}
+
+export const HubStatusIndicator: FC<HubStatusIndicatorProps> = ({ state, compact, ...props }) => {
+  const { color, label } = useHubStatus(state)
+
+  if (compact) {
+    return (
+      <Tooltip label={label} withArrow position="left" classNames={tooltipClasses}>
+        <ColorSwatch color={`var(--mantine-color-${color}-6)`} size={10} withShadow={false} />
+      </Tooltip>
+    )
+  }
+
+  return (
+    <Badge variant="dot" color={color} size="lg" {...props}>
+      {label}
+    </Badge>
+  )
+}
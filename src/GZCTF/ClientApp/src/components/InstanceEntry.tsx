@@ -17,6 +17,7 @@ import duration from 'dayjs/plugin/duration'
 import { FC, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { HandleWsrxError, useWsrx } from '@Components/WsrxProvider'
+import { useRateLimit } from '@Utils/RateLimit'
 import { getProxyUrl as getProxyEntry } from '@Utils/Shared'
 import { useConfig } from '@Hooks/useConfig'
 import { ClientFlagContext, ContainerPortMappingType } from '@Api'
@@ -75,6 +76,7 @@ export const InstanceEntry: FC<InstanceEntryProps> = (props) => {
 
   const { config } = useConfig()
   const clipBoard = useClipboard()
+  const cooldown = useRateLimit('container')
 
   const [forceShowOriginal, setForceShowOriginal] = useState(false)
   const [withContainer, setWithContainer] = useState(!!context.instanceEntry)
@@ -185,8 +187,8 @@ export const InstanceEntry: FC<InstanceEntryProps> = (props) => {
           </Text>
         </Stack>
 
-        <Button onClick={onCreate} disabled={disabled} loading={disabled}>
-          {t('challenge.button.instance.create')}
+        <Button onClick={onCreate} disabled={disabled || cooldown > 0} loading={disabled}>
+          {cooldown > 0 ? t('common.button.retry_after', { seconds: cooldown }) : t('challenge.button.instance.create')}
         </Button>
       </Group>
     )
@@ -282,8 +284,10 @@ export const InstanceEntry: FC<InstanceEntryProps> = (props) => {
             </Text>
           </Stack>
           <Group justify="right" wrap="nowrap" gap="xs">
-            <Button color="orange" onClick={onExtend} disabled={!canExtend || disabled}>
-              {t('challenge.button.instance.extend')}
+            <Button color="orange" onClick={onExtend} disabled={!canExtend || disabled || cooldown > 0}>
+              {cooldown > 0
+                ? t('common.button.retry_after', { seconds: cooldown })
+                : t('challenge.button.instance.extend')}
             </Button>
             <Button color="red" onClick={onDestroy} disabled={disabled}>
               {t('challenge.button.instance.destroy')}
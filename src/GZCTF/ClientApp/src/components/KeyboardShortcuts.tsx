@@ -0,0 +1,86 @@
+import { Group, Kbd, Modal, Table, Text, Title } from '@mantine/core'
+import { useHotkeys, useOs } from '@mantine/hooks'
+import { FC, Fragment, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useLocation, useNavigate } from 'react-router'
+import { CommandPalette } from '@Components/CommandPalette'
+import { useKeySequences } from '@Hooks/useKeySequences'
+
+const Shortcuts = [
+  { keys: [['mod', 'K']], label: 'palette' },
+  { keys: [['?']], label: 'help' },
+  { keys: [['g', 's']], label: 'scoreboard' },
+  { keys: [['g', 'c']], label: 'challenges' },
+  { keys: [['j'], ['k']], label: 'move' },
+  { keys: [['Enter']], label: 'open' },
+  { keys: [['/']], label: 'flag' },
+  { keys: [['Esc']], label: 'close' },
+] as const
+
+/**
+ * Global shortcuts, the command palette and the list of shortcuts
+ */
+export const KeyboardShortcuts: FC = () => {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { pathname } = useLocation()
+  const os = useOs()
+
+  const [paletteOpened, setPaletteOpened] = useState(false)
+  const [helpOpened, setHelpOpened] = useState(false)
+
+  const gameId = pathname.match(/^\/games\/(\d+)/)?.[1]
+
+  // works while typing as well
+  useHotkeys([['mod+K', () => setPaletteOpened((opened) => !opened)]], [])
+
+  const toGamePage = (page: string) => () => {
+    if (!gameId) return false
+    navigate(`/games/${gameId}/${page}`)
+  }
+
+  useKeySequences([
+    ['?', () => setHelpOpened(true)],
+    ['g s', toGamePage('scoreboard')],
+    ['g c', toGamePage('challenges')],
+  ])
+
+  const mod = os === 'macos' || os === 'ios' ? '⌘' : 'Ctrl'
+
+  return (
+    <>
+      <CommandPalette opened={paletteOpened} onClose={() => setPaletteOpened(false)} />
+      <Modal
+        opened={helpOpened}
+        onClose={() => setHelpOpened(false)}
+        title={<Title order={4}>{t('common.label.shortcuts.title')}</Title>}
+      >
+        <Table>
+          <Table.Tbody>
+            {Shortcuts.map(({ keys, label }) => (
+              <Table.Tr key={label}>
+                <Table.Td>
+                  <Group gap={4} wrap="nowrap">
+                    {keys.map((combo, idx) => (
+                      <Fragment key={combo.join()}>
+                        {idx > 0 && <Text c="dimmed">/</Text>}
+                        {combo.map((key) => (
+                          <Kbd key={key} size="sm">
+                            {key === 'mod' ? mod : key}
+                          </Kbd>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </Group>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm">{t(`common.label.shortcuts.${label}`)}</Text>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,95 @@
+import { ActionIcon, Checkbox, Divider, Group, Popover, Stack, Switch, Text, Tooltip } from '@mantine/core'
+import { mdiBellOutline, mdiBellRingOutline } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlertNoticeTypes, NoticeAlertSettings, isDesktopNotificationSupported } from '@Utils/NoticeAlerts'
+import { NoticTypeIconMap } from '@Utils/Shared'
+import { NoticeType } from '@Api'
+
+const TypeLabelKeys: Record<(typeof AlertNoticeTypes)[number], string> = {
+  [NoticeType.Normal]: 'normal',
+  [NoticeType.NewChallenge]: 'new_challenge',
+  [NoticeType.NewHint]: 'new_hint',
+  [NoticeType.FirstBlood]: 'first_blood',
+}
+
+interface NoticeAlertPopoverProps {
+  settings: NoticeAlertSettings
+  onChange: (patch: Partial<NoticeAlertSettings>) => void
+  onDesktopChange: (desktop: boolean) => void
+}
+
+/**
+ * Settings of the alerts for game notices, behind a bell button
+ */
+export const NoticeAlertPopover: FC<NoticeAlertPopoverProps> = ({ settings, onChange, onDesktopChange }) => {
+  const { t } = useTranslation()
+  const iconMap = NoticTypeIconMap(0.8)
+
+  const supported = isDesktopNotificationSupported()
+  const active = settings.desktop || settings.sound || settings.unreadBadge
+
+  return (
+    <Popover position="bottom-end" shadow="md" withArrow>
+      <Popover.Target>
+        <Tooltip label={t('game.label.notice_alerts.title')} withArrow>
+          <ActionIcon variant={active ? 'light' : 'subtle'} aria-label={t('game.label.notice_alerts.title')}>
+            <Icon path={active ? mdiBellRingOutline : mdiBellOutline} size={0.8} />
+          </ActionIcon>
+        </Tooltip>
+      </Popover.Target>
+      <Popover.Dropdown>
+        <Stack gap="xs" w="16rem">
+          <Text fw="bold" size="sm">
+            {t('game.label.notice_alerts.title')}
+          </Text>
+          <Switch
+            size="sm"
+            disabled={!supported}
+            checked={settings.desktop}
+            onChange={(e) => onDesktopChange(e.currentTarget.checked)}
+            label={t('game.label.notice_alerts.desktop')}
+            description={!supported && t('game.label.notice_alerts.unsupported')}
+          />
+          <Switch
+            size="sm"
+            checked={settings.sound}
+            onChange={(e) => onChange({ sound: e.currentTarget.checked })}
+            label={t('game.label.notice_alerts.sound')}
+          />
+          <Switch
+            size="sm"
+            checked={settings.muteOnFocus}
+            onChange={(e) => onChange({ muteOnFocus: e.currentTarget.checked })}
+            label={t('game.label.notice_alerts.mute_on_focus')}
+          />
+          <Switch
+            size="sm"
+            checked={settings.unreadBadge}
+            onChange={(e) => onChange({ unreadBadge: e.currentTarget.checked })}
+            label={t('game.label.notice_alerts.unread_badge')}
+          />
+          <Divider label={t('game.label.notice_alerts.types.title')} labelPosition="left" />
+          <Checkbox.Group value={settings.types} onChange={(types) => onChange({ types: types as NoticeType[] })}>
+            <Stack gap={6}>
+              {AlertNoticeTypes.map((type) => (
+                <Checkbox
+                  key={type}
+                  size="xs"
+                  value={type}
+                  label={
+                    <Group gap={4} wrap="nowrap">
+                      <Icon {...iconMap.get(type)!} />
+                      <span>{t(`game.label.notice_alerts.types.${TypeLabelKeys[type]}`)}</span>
+                    </Group>
+                  }
+                />
+              ))}
+            </Stack>
+          </Checkbox.Group>
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  )
+}
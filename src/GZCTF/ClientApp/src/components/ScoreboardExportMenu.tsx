@@ -0,0 +1,92 @@
+import { ActionIcon, Menu, Tooltip } from '@mantine/core'
+import { useClipboard } from '@mantine/hooks'
+import { showNotification } from '@mantine/notifications'
+import { mdiCheck, mdiCodeJson, mdiCodeTags, mdiDownload, mdiFileDelimitedOutline, mdiLanguageHtml5 } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import { FC } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useParams } from 'react-router'
+import { openBlob } from '@Utils/ApiHelper'
+import { ScoreboardExportHeaders, toCsv, toCtftimeJson, toStaticHtml } from '@Utils/Scoreboard'
+import { useGame } from '@Hooks/useGame'
+import { ScoreboardModel } from '@Api'
+
+interface ScoreboardExportMenuProps {
+  scoreboard?: ScoreboardModel
+  division: string
+}
+
+export const ScoreboardExportMenu: FC<ScoreboardExportMenuProps> = ({ scoreboard, division }) => {
+  const { id } = useParams()
+  const numId = parseInt(id ?? '-1')
+  const { game } = useGame(numId)
+  const { t } = useTranslation()
+  const clipboard = useClipboard()
+
+  const headers: ScoreboardExportHeaders = {
+    rank: t('game.label.score_table.rank_total'),
+    divisionRank: t('game.label.score_table.rank_division'),
+    team: t('common.label.team'),
+    division: t('game.label.score_table.division'),
+    score: t('game.label.score_table.score_total'),
+    solved: t('game.label.score_table.solved_count'),
+    lastSubmission: t('game.label.score_table.last_submission'),
+  }
+
+  const save = (content: string, type: string, ext: string) => {
+    const suffix = division === 'all' ? '' : `_${division}`
+    openBlob(new Blob([content], { type }), `Scoreboard_${numId}${suffix}_${Date.now()}.${ext}`)
+  }
+
+  const onCopyEmbed = () => {
+    const query = new URLSearchParams({ game: `${numId}` })
+    if (division !== 'all') query.set('division', division)
+
+    clipboard.copy(
+      `<iframe src="${window.location.origin}/embed.html?${query}" width="360" height="480" frameborder="0"></iframe>`
+    )
+    showNotification({
+      color: 'teal',
+      message: t('game.notification.embed_copied'),
+      icon: <Icon path={mdiCheck} size={1} />,
+    })
+  }
+
+  return (
+    <Menu position="bottom-end" shadow="md" width={200} disabled={!scoreboard}>
+      <Menu.Target>
+        <Tooltip label={t('game.button.export.title')} transitionProps={{ transition: 'pop' }}>
+          <ActionIcon size="lg" variant="subtle" aria-label={t('game.button.export.title')}>
+            <Icon path={mdiDownload} size={1} />
+          </ActionIcon>
+        </Tooltip>
+      </Menu.Target>
+      {scoreboard && (
+        <Menu.Dropdown>
+          <Menu.Item
+            leftSection={<Icon path={mdiCodeJson} size={1} />}
+            onClick={() => save(toCtftimeJson(scoreboard, division), 'application/json', 'json')}
+          >
+            {t('game.button.export.ctftime')}
+          </Menu.Item>
+          <Menu.Item
+            leftSection={<Icon path={mdiFileDelimitedOutline} size={1} />}
+            onClick={() => save(toCsv(scoreboard, division, headers), 'text/csv', 'csv')}
+          >
+            {t('game.button.export.csv')}
+          </Menu.Item>
+          <Menu.Item
+            leftSection={<Icon path={mdiLanguageHtml5} size={1} />}
+            onClick={() => save(toStaticHtml(scoreboard, division, game?.title ?? '', headers), 'text/html', 'html')}
+          >
+            {t('game.button.export.html')}
+          </Menu.Item>
+          <Menu.Divider />
+          <Menu.Item leftSection={<Icon path={mdiCodeTags} size={1} />} onClick={onCopyEmbed}>
+            {t('game.button.export.embed')}
+          </Menu.Item>
+        </Menu.Dropdown>
+      )}
+    </Menu>
+  )
+}
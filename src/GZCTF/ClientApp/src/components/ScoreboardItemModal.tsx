@@ -32,7 +32,7 @@ export interface ScoreboardItemModalProps extends ModalProps {
   scoreboard?: ScoreboardModel
 }
 
-function calculateScoreRadar(
+export function calculateScoreRadar(
   challenges: Record<string, ChallengeInfo[]>,
   challengeIdMap: Map<number, ChallengeInfo>,
   item?: ScoreboardItem
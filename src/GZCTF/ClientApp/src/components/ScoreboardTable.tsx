@@ -1,14 +1,20 @@
 import {
+  ActionIcon,
   alpha,
   Avatar,
   Box,
+  Button,
   Center,
   Grid,
   Group,
+  MultiSelect,
   Pagination,
   Paper,
+  Popover,
+  SegmentedControl,
   Select,
   Stack,
+  Switch,
   Table,
   Text,
   TextInput,
@@ -16,16 +22,28 @@ import {
   useMantineColorScheme,
   useMantineTheme,
 } from '@mantine/core'
-import { useDebouncedValue } from '@mantine/hooks'
-import { mdiAccountGroup, mdiMagnify } from '@mdi/js'
+import { useDebouncedValue, useLocalStorage } from '@mantine/hooks'
+import {
+  mdiAccountGroup,
+  mdiArrowCollapseHorizontal,
+  mdiArrowExpandHorizontal,
+  mdiClose,
+  mdiCompareHorizontal,
+  mdiHelp,
+  mdiMagnify,
+  mdiProjectorScreenOutline,
+  mdiTune,
+} from '@mdi/js'
 import { Icon } from '@mdi/react'
 import cx from 'clsx'
 import dayjs from 'dayjs'
-import React, { FC, useEffect, useState, useMemo } from 'react'
+import React, { FC, useCallback, useDeferredValue, useEffect, useState, useMemo, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { useParams } from 'react-router'
+import { useLocation, useParams } from 'react-router'
+import { ScoreboardExportMenu } from '@Components/ScoreboardExportMenu'
 import { ScoreboardItemModal } from '@Components/ScoreboardItemModal'
 import { ScrollingText } from '@Components/ScrollingText'
+import { MAX_COMPARE_TEAMS, TeamCompareModal } from '@Components/TeamCompareModal'
 import { useLanguage } from '@Utils/I18n'
 import {
   BloodBonus,
@@ -35,8 +53,19 @@ import {
   useBonusLabels,
   PartialIconProps,
 } from '@Utils/Shared'
-import { useGameScoreboard } from '@Hooks/useGame'
-import { ChallengeInfo, ChallengeCategory, ScoreboardItem, SubmissionType } from '@Api'
+import { OnceSWRConfig } from '@Hooks/useConfig'
+import { useGame, useGameScoreboard } from '@Hooks/useGame'
+import { ScoreboardItemChange, useFlipRows, useScoreboardChanges } from '@Hooks/useScoreboardChanges'
+import { useVirtualTable } from '@Hooks/useVirtualTable'
+import api, {
+  ChallengeInfo,
+  ChallengeCategory,
+  ChallengeItem,
+  ParticipationStatus,
+  ScoreboardItem,
+  ScoreboardModel,
+  SubmissionType,
+} from '@Api'
 import misc from '@Styles/Misc.module.css'
 import classes from '@Styles/ScoreboardTable.module.css'
 import tooltipClasses from '@Styles/Tooltip.module.css'
@@ -50,7 +79,80 @@ const Lefts = Widths.reduce(
   [0]
 )
 
-const TableHeader = React.memo((table: Record<string, ChallengeInfo[]>) => {
+// fixed sizes, so only the visible part of large boards is rendered
+const ROW_HEIGHT = 56
+const COLUMN_WIDTH = 80
+
+type ScoreboardSort = 'score' | 'solved' | 'time'
+
+interface ScoreboardPrefs {
+  sort: ScoreboardSort
+  /** categories whose challenges are shown, all if empty */
+  categories: string[]
+  /** categories shown as a single column */
+  collapsed: string[]
+  /** only teams with the status on this challenge are shown */
+  challenge: number | null
+  status: 'solved' | 'unsolved'
+  /** show the own team on top of every page */
+  pinned: boolean
+  /** all teams on one scrolling page instead of pages */
+  continuous: boolean
+}
+
+const DefaultPrefs: ScoreboardPrefs = {
+  sort: 'score',
+  categories: [],
+  collapsed: [],
+  challenge: null,
+  status: 'solved',
+  pinned: false,
+  continuous: false,
+}
+
+const sortItems = (items: ScoreboardItem[], sort: ScoreboardSort) => {
+  // the scoreboard is ranked by score already, the rank breaks ties of other orders
+  switch (sort) {
+    case 'solved':
+      return [...items].sort((a, b) => (b.solvedCount ?? 0) - (a.solvedCount ?? 0) || a.rank! - b.rank!)
+    case 'time':
+      return [...items].sort((a, b) => (b.lastSubmissionTime ?? 0) - (a.lastSubmissionTime ?? 0) || a.rank! - b.rank!)
+    default:
+      return items
+  }
+}
+
+/**
+ * A challenge column, or a whole category when it is collapsed
+ */
+interface TableColumn {
+  key: string
+  category: string
+  challenge?: ChallengeInfo
+}
+
+/**
+ * Columns around the rendered ones, kept as spacers so the table keeps its width
+ */
+interface ColumnPadding {
+  before: number
+  after: number
+}
+
+const Spacer: FC<{ width: number; header?: boolean }> = ({ width, header }) => {
+  if (width <= 0) return null
+  const Cell = header ? Table.Th : Table.Td
+  return <Cell className={classes.spacer} style={{ width, minWidth: width, maxWidth: width }} />
+}
+
+interface TableHeaderProps {
+  columns: TableColumn[]
+  padding: ColumnPadding
+  challenges: Record<string, ChallengeInfo[]>
+  onToggle: (category: string) => void
+}
+
+const TableHeader = React.memo<TableHeaderProps>(({ columns, padding, challenges, onToggle }) => {
   const theme = useMantineTheme()
   const { colorScheme } = useMantineColorScheme()
   const { t } = useTranslation()
@@ -71,16 +173,25 @@ const TableHeader = React.memo((table: Record<string, ChallengeInfo[]>) => {
     </Table.Th>
   ))
 
+  // consecutive rendered columns of the same category share a header cell
+  const groups = columns.reduce<{ category: string; span: number; folded: boolean }[]>((acc, col) => {
+    const last = acc.at(-1)
+    if (last?.category === col.category) last.span++
+    else acc.push({ category: col.category, span: 1, folded: !col.challenge })
+    return acc
+  }, [])
+
   return (
     <Table.Thead className={classes.thead}>
       <Table.Tr className={misc.noBorder}>
         {hiddenCol}
-        {Object.keys(table).map((key) => {
-          const cate = challengeCategoryLabelMap.get(key as ChallengeCategory)!
+        <Spacer header width={padding.before} />
+        {groups.map(({ category, span, folded }) => {
+          const cate = challengeCategoryLabelMap.get(category as ChallengeCategory)!
           return (
             <Table.Th
-              key={key}
-              colSpan={table[key].length}
+              key={category}
+              colSpan={span}
               h="3rem"
               style={{
                 backgroundColor: alpha(
@@ -89,20 +200,44 @@ const TableHeader = React.memo((table: Record<string, ChallengeInfo[]>) => {
                 ),
               }}
             >
-              <Group gap={4} wrap="nowrap" justify="center" w="100%">
+              <Group
+                gap={4}
+                wrap="nowrap"
+                justify="center"
+                w="100%"
+                className={classes.pointer}
+                onClick={() => onToggle(category)}
+                title={t('game.label.score_table.view.collapse')}
+              >
                 <Icon path={cate.icon} size={1} color={theme.colors[cate.color][colorScheme === 'dark' ? 8 : 6]} />
-                <Text c={cate.color} className={classes.text} ff="text" fz="sm">
-                  {key}
-                </Text>
+                {!folded && (
+                  <Text c={cate.color} className={classes.text} ff="text" fz="sm" truncate>
+                    {category}
+                  </Text>
+                )}
+                <Icon
+                  path={folded ? mdiArrowExpandHorizontal : mdiArrowCollapseHorizontal}
+                  size={0.6}
+                  color={theme.colors[cate.color][colorScheme === 'dark' ? 8 : 6]}
+                />
               </Group>
             </Table.Th>
           )
         })}
+        <Spacer header width={padding.after} />
       </Table.Tr>
       {/* Challenge Name */}
       <Table.Tr>
         {hiddenCol}
-        {Object.keys(table).map((key) => table[key].map((item) => <Table.Th key={item.id}>{item.title}</Table.Th>))}
+        <Spacer header width={padding.before} />
+        {columns.map((col) => (
+          <Table.Th key={col.key} style={{ width: COLUMN_WIDTH, maxWidth: COLUMN_WIDTH }}>
+            <Text fz="xs" fw="bold" truncate title={col.challenge?.title ?? col.category}>
+              {col.challenge?.title ?? col.category}
+            </Text>
+          </Table.Th>
+        ))}
+        <Spacer header width={padding.after} />
       </Table.Tr>
       {/* Headers & Score */}
       <Table.Tr>
@@ -117,122 +252,231 @@ const TableHeader = React.memo((table: Record<string, ChallengeInfo[]>) => {
             {header}
           </Table.Th>
         ))}
-        {Object.keys(table).map((key) =>
-          table[key].map((item) => (
-            <Table.Th key={item.id} className={classes.mono}>
-              {item.score}
-            </Table.Th>
-          ))
-        )}
+        <Spacer header width={padding.before} />
+        {columns.map((col) => (
+          <Table.Th key={col.key} className={classes.mono}>
+            {col.challenge ? col.challenge.score : challenges[col.category].length}
+          </Table.Th>
+        ))}
+        <Spacer header width={padding.after} />
       </Table.Tr>
     </Table.Thead>
   )
 })
 
+/**
+ * ▲/▼ next to a rank, nothing if the rank did not change
+ */
+export const RankDelta: FC<{ delta?: number }> = ({ delta }) => {
+  const { t } = useTranslation()
+
+  if (!delta) return null
+
+  const label = t(delta > 0 ? 'game.label.score_table.moved_up' : 'game.label.score_table.moved_down', {
+    count: Math.abs(delta),
+  })
+
+  return (
+    <Text span aria-label={label} title={label} className={cx(classes.delta, delta > 0 ? classes.up : classes.down)}>
+      {delta > 0 ? '▲' : '▼'}
+      {Math.abs(delta)}
+    </Text>
+  )
+}
+
+/**
+ * The tooltip is only created once the cell is hovered, large boards have thousands of cells
+ */
+const LazyTooltip: FC<{ label: () => React.ReactNode; children: React.ReactNode }> = ({ label, children }) => {
+  const [active, setActive] = useState(false)
+
+  if (!active)
+    return (
+      <Center onMouseEnter={() => setActive(true)} onFocus={() => setActive(true)}>
+        {children}
+      </Center>
+    )
+
+  return (
+    <Tooltip classNames={tooltipClasses} transitionProps={{ transition: 'pop' }} label={label()} defaultOpened>
+      <Center>{children}</Center>
+    </Tooltip>
+  )
+}
+
 const TableRow: FC<{
   item: ScoreboardItem
   allRank: boolean
   tableRank: number
   onOpenDetail: () => void
   iconMap: Map<SubmissionType, PartialIconProps | undefined>
-  challenges?: Record<string, ChallengeInfo[]>
-}> = React.memo(({ item, challenges, onOpenDetail, iconMap, tableRank, allRank }) => {
-  const challengeCategoryLabelMap = useChallengeCategoryLabelMap()
-  const solved = item.solvedChallenges
-  const theme = useMantineTheme()
-  const { locale } = useLanguage()
+  columns: TableColumn[]
+  padding: ColumnPadding
+  challenges: Record<string, ChallengeInfo[]>
+  change?: ScoreboardItemChange
+  pending?: ChallengeItem[]
+  focused?: boolean
+  /** a copy of the row shown on top, not animated */
+  pinned?: boolean
+}> = React.memo(
+  ({
+    item,
+    columns,
+    padding,
+    challenges,
+    onOpenDetail,
+    iconMap,
+    tableRank,
+    allRank,
+    change,
+    pending,
+    focused,
+    pinned,
+  }) => {
+    const challengeCategoryLabelMap = useChallengeCategoryLabelMap()
+    const solved = item.solvedChallenges
+    const theme = useMantineTheme()
+    const { locale } = useLanguage()
 
-  const totalScore = useMemo(() => {
-    return solved?.reduce((acc, cur) => acc + (cur?.score ?? 0), 0) ?? 0
-  }, [solved])
+    const totalScore = useMemo(() => {
+      return solved?.reduce((acc, cur) => acc + (cur?.score ?? 0), 0) ?? 0
+    }, [solved])
 
-  return (
-    <Table.Tr>
-      <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[0] }}>
-        {item.rank}
-      </Table.Td>
-      <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[1] }}>
-        {allRank ? item.rank : (item.divisionRank ?? tableRank)}
-      </Table.Td>
-      <Table.Td className={classes.left} style={{ left: Lefts[2] }}>
-        <Group
-          justify="left"
-          gap={5}
-          wrap="nowrap"
-          onClick={onOpenDetail}
-          maw={Widths[2] - 10}
-          className={classes.pointer}
-        >
-          <Avatar alt="avatar" src={item.avatar} radius="xl" size={30} color={theme.primaryColor}>
-            {item.name?.slice(0, 1) ?? 'T'}
-          </Avatar>
-          <Stack gap={0} h="2.5rem" justify="center" w={Widths[2] - 45}>
-            <ScrollingText size="sm" text={item.name || ''} onClick={onOpenDetail} />
-            {!!item.division && (
-              <Text size="xs" c="dimmed" ta="start" truncate className={classes.text}>
-                {item.division}
-              </Text>
-            )}
-          </Stack>
-        </Group>
-      </Table.Td>
-      <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[3] }}>
-        {solved?.length}
-      </Table.Td>
-      <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[4] }}>
-        {totalScore}
-      </Table.Td>
-      {challenges &&
-        Object.keys(challenges).map((key) =>
-          challenges[key].map((item) => {
-            const chal = solved?.find((c) => c.id === item.id)
-            const icon = iconMap.get(chal?.type ?? SubmissionType.Unaccepted)
-
-            if (!icon) return <Table.Td key={item.id} className={classes.mono} />
-
-            const cate = challengeCategoryLabelMap.get(item.category as ChallengeCategory)!
+    const solvedMap = useMemo(() => new Map(solved?.map((c) => [c.id!, c])), [solved])
 
+    return (
+      <Table.Tr
+        data-flip-key={pinned ? undefined : item.id}
+        className={cx(focused && classes.focused, pinned && classes.pinned)}
+        style={{ height: ROW_HEIGHT }}
+      >
+        <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[0] }}>
+          {item.rank}
+          <RankDelta delta={change?.rank} />
+        </Table.Td>
+        <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[1] }}>
+          {allRank ? item.rank : (item.divisionRank ?? tableRank)}
+          <RankDelta delta={allRank ? change?.rank : change?.divisionRank} />
+        </Table.Td>
+        <Table.Td className={classes.left} style={{ left: Lefts[2] }}>
+          <Group
+            justify="left"
+            gap={5}
+            wrap="nowrap"
+            onClick={onOpenDetail}
+            maw={Widths[2] - 10}
+            className={classes.pointer}
+          >
+            <Avatar alt="avatar" src={item.avatar} radius="xl" size={30} color={theme.primaryColor}>
+              {item.name?.slice(0, 1) ?? 'T'}
+            </Avatar>
+            <Stack gap={0} h="2.5rem" justify="center" w={Widths[2] - 45}>
+              <ScrollingText size="sm" text={item.name || ''} />
+              {!!item.division && (
+                <Text size="xs" c="dimmed" ta="start" truncate className={classes.text}>
+                  {item.division}
+                </Text>
+              )}
+            </Stack>
+          </Group>
+        </Table.Td>
+        <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[3] }}>
+          {solved?.length}
+        </Table.Td>
+        <Table.Td className={cx(classes.mono, classes.left)} style={{ left: Lefts[4] }}>
+          {totalScore}
+        </Table.Td>
+        <Spacer width={padding.before} />
+        {columns.map((col) => {
+          if (!col.challenge) {
+            const ids = challenges[col.category].map((c) => c.id!)
+            const count = ids.filter((id) => solvedMap.has(id)).length
             return (
-              <Table.Td key={item.id} className={classes.mono}>
-                <Tooltip
-                  classNames={tooltipClasses}
-                  transitionProps={{ transition: 'pop' }}
-                  label={
-                    <Stack align="flex-start" gap={0} maw="20rem">
-                      <Text lineClamp={3} fz="xs" className={classes.text}>
-                        {item.title}
-                      </Text>
-                      <Text c={cate.color} fz="xs" className={cx(classes.text, classes.mono)}>
-                        + {chal?.score} pts
-                      </Text>
-                      <Text c="dimmed" fz="xs" className={cx(classes.text, classes.mono)}>
-                        # {dayjs(chal?.time).locale(locale).format('L LTS')}
-                      </Text>
-                    </Stack>
-                  }
-                >
-                  <Center>
-                    <Icon {...icon} />
-                  </Center>
-                </Tooltip>
+              <Table.Td
+                key={col.key}
+                className={cx(classes.mono, change?.solved.some((id) => ids.includes(id)) && classes.solved)}
+              >
+                {count}/{ids.length}
               </Table.Td>
             )
-          })
-        )}
-    </Table.Tr>
-  )
-})
+          }
+
+          const item = col.challenge
+          const chal = solvedMap.get(item.id!)
+          const icon = iconMap.get(chal?.type ?? SubmissionType.Unaccepted)
+
+          if (!icon && pending?.some((c) => c.id === item.id)) {
+            return (
+              <Table.Td key={col.key} className={cx(classes.mono, classes.pending)}>
+                <Center>
+                  <Icon path={mdiHelp} size={1} />
+                </Center>
+              </Table.Td>
+            )
+          }
+
+          if (!icon) return <Table.Td key={col.key} className={classes.mono} />
+
+          const cate = challengeCategoryLabelMap.get(item.category as ChallengeCategory)!
+
+          return (
+            <Table.Td key={col.key} className={cx(classes.mono, change?.solved.includes(item.id!) && classes.solved)}>
+              <LazyTooltip
+                label={() => (
+                  <Stack align="flex-start" gap={0} maw="20rem">
+                    <Text lineClamp={3} fz="xs" className={classes.text}>
+                      {item.title}
+                    </Text>
+                    <Text c={cate.color} fz="xs" className={cx(classes.text, classes.mono)}>
+                      + {chal?.score} pts
+                    </Text>
+                    <Text c="dimmed" fz="xs" className={cx(classes.text, classes.mono)}>
+                      # {dayjs(chal?.time).locale(locale).format('L LTS')}
+                    </Text>
+                  </Stack>
+                )}
+              >
+                <Icon {...icon} />
+              </LazyTooltip>
+            </Table.Td>
+          )
+        })}
+        <Spacer width={padding.after} />
+      </Table.Tr>
+    )
+  }
+)
 
 const ITEM_COUNT_PER_PAGE = 30
 
 export interface ScoreboardProps {
   division: string | null
   setDivision: (div: string | null) => void
+  /** how long rank changes stay visible, in ms */
+  changeWindow?: number
+  /** shown instead of the scoreboard of the game */
+  scoreboard?: ScoreboardModel
+  /** hidden solves of each team, shown as pending cells */
+  pending?: Map<number, ChallengeItem[]>
+  /** team to highlight, its page is opened */
+  focus?: number
 }
 
-export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision }) => {
+export const ScoreboardTable: FC<ScoreboardProps> = ({
+  division,
+  setDivision,
+  changeWindow,
+  scoreboard: shown,
+  pending,
+  focus: focusProp,
+}) => {
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
+  const { hash } = useLocation()
+
+  // `#team-<id>` opens the details of the team, e.g. from the command palette
+  const hashTeam = parseInt(hash.match(/^#team-(\d+)$/)?.[1] ?? '') || undefined
+  const focus = focusProp ?? hashTeam
   const { iconMap } = SubmissionTypeIconMap(1)
   const [activePage, setPage] = useState(1)
   const [bloodBonus, setBloodBonus] = useState(BloodBonus.default)
@@ -240,21 +484,86 @@ export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision })
   const [keyword, setKeyword] = useState('')
   const [debouncedKeyword] = useDebouncedValue(keyword, 400)
 
-  const { scoreboard } = useGameScoreboard(numId)
+  const { scoreboard: fetched } = useGameScoreboard(numId)
+  const scoreboard = shown ?? fetched
+  const changes = useScoreboardChanges(numId, scoreboard?.items, changeWindow)
+  const tbodyRef = useRef<HTMLTableSectionElement>(null)
+
+  useFlipRows(tbodyRef, scoreboard?.items)
+
+  const { game } = useGame(numId)
+  // only accepted participants have a row of their own, the details are refused to everyone else
+  const { data: teamInfo } = api.game.useGameChallengesWithTeamInfo(
+    numId,
+    { ...OnceSWRConfig, shouldRetryOnError: false },
+    game?.status === ParticipationStatus.Accepted
+  )
+  const [stored, setStored] = useLocalStorage<ScoreboardPrefs>({
+    key: `scoreboard-prefs-${numId}`,
+    defaultValue: DefaultPrefs,
+    getInitialValueInEffect: false,
+  })
+  // preferences saved by older versions may miss some fields
+  const prefs = { ...DefaultPrefs, ...stored }
+
+  const updatePrefs = (patch: Partial<ScoreboardPrefs>) => {
+    setStored((current) => ({ ...DefaultPrefs, ...current, ...patch }))
+    setPage(1)
+  }
+
+  const onToggleCategory = useCallback(
+    (category: string) =>
+      setStored((current) => {
+        const collapsed = current.collapsed ?? []
+        return {
+          ...DefaultPrefs,
+          ...current,
+          collapsed: collapsed.includes(category) ? collapsed.filter((c) => c !== category) : [...collapsed, category],
+        }
+      }),
+    [setStored]
+  )
+
+  const columns = useMemo(() => {
+    const challenges = scoreboard?.challenges ?? {}
+    if (prefs.categories.length === 0) return challenges
+    return Object.fromEntries(Object.entries(challenges).filter(([key]) => prefs.categories.includes(key)))
+  }, [scoreboard, prefs.categories])
+
+  const columnList = useMemo(
+    () =>
+      Object.entries(columns).flatMap(([category, list]): TableColumn[] =>
+        prefs.collapsed.includes(category)
+          ? [{ key: category, category }]
+          : list.map((challenge) => ({ key: `${challenge.id}`, category, challenge }))
+      ),
+    [columns, prefs.collapsed]
+  )
 
   const filteredList = useMemo(() => {
     if (!scoreboard?.items) return []
 
+    let items = scoreboard.items
+
     if (!!debouncedKeyword && debouncedKeyword.length > 0) {
-      return scoreboard.items.filter((s) => s.name?.toLowerCase().includes(debouncedKeyword.toLowerCase()))
+      items = items.filter((s) => s.name?.toLowerCase().includes(debouncedKeyword.toLowerCase()))
+    } else if (division !== 'all') {
+      items = items.filter((s) => s.division === division)
     }
 
-    if (division !== 'all') {
-      return scoreboard.items.filter((s) => s.division === division)
+    if (prefs.challenge !== null) {
+      const solved = prefs.status === 'solved'
+      items = items.filter((s) => !!s.solvedChallenges?.some((c) => c.id === prefs.challenge) === solved)
     }
 
-    return scoreboard.items
-  }, [scoreboard, debouncedKeyword, division])
+    return sortItems(items, prefs.sort)
+  }, [scoreboard, debouncedKeyword, division, prefs.challenge, prefs.status, prefs.sort])
+
+  // filtering large boards should not block typing or switching divisions
+  const shownList = useDeferredValue(filteredList)
+
+  const ownTeam = teamInfo?.rank?.id
+  const pinnedItem = prefs.pinned ? scoreboard?.items?.find((item) => item.id === ownTeam) : undefined
 
   useEffect(() => {
     setPage(1)
@@ -262,12 +571,70 @@ export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision })
     setKeyword('')
   }, [id])
 
-  const base = (activePage - 1) * ITEM_COUNT_PER_PAGE
-  const currentItems = filteredList?.slice(base, base + ITEM_COUNT_PER_PAGE)
+  useEffect(() => {
+    const index = shownList.findIndex((item) => item.id === focus)
+    if (index < 0) return
+
+    if (!prefs.continuous) {
+      setPage(Math.floor(index / ITEM_COUNT_PER_PAGE) + 1)
+      return
+    }
+
+    const top = tbodyRef.current?.getBoundingClientRect().top
+    if (top !== undefined) {
+      window.scrollBy({ top: top + index * ROW_HEIGHT - window.innerHeight / 2, behavior: 'smooth' })
+    }
+  }, [focus, shownList, prefs.continuous])
+
+  const base = prefs.continuous ? 0 : (activePage - 1) * ITEM_COUNT_PER_PAGE
+  const currentItems = prefs.continuous ? shownList : shownList.slice(base, base + ITEM_COUNT_PER_PAGE)
+
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const { rowStart, rowEnd, columnStart, columnEnd } = useVirtualTable({
+    viewport: viewportRef,
+    body: tbodyRef,
+    rowCount: currentItems.length,
+    rowHeight: ROW_HEIGHT,
+    rowOffset: pinnedItem ? 1 : 0,
+    columnCount: columnList.length,
+    columnWidth: COLUMN_WIDTH,
+    columnOffset: Lefts[5],
+  })
+
+  const visibleColumns = useMemo(() => columnList.slice(columnStart, columnEnd), [columnList, columnStart, columnEnd])
+  const padding = useMemo(
+    () => ({
+      before: columnStart * COLUMN_WIDTH,
+      after: Math.max(columnList.length - columnEnd, 0) * COLUMN_WIDTH,
+    }),
+    [columnList, columnStart, columnEnd]
+  )
 
   const [currentItem, setCurrentItem] = useState<ScoreboardItem | null>(null)
   const [itemDetailOpened, setItemDetailOpened] = useState(false)
 
+  const hashItem = hashTeam ? scoreboard?.items?.find((item) => item.id === hashTeam) : undefined
+  useEffect(() => {
+    if (!hashItem) return
+    setCurrentItem(hashItem)
+    setItemDetailOpened(true)
+  }, [hashItem?.id])
+
+  // clicking a team picks it for the comparison instead of opening its details
+  const [comparing, setComparing] = useState(false)
+  const [compared, setCompared] = useState<number[]>([])
+  const [compareOpened, setCompareOpened] = useState(false)
+
+  const compareTeams = useMemo(
+    () => compared.map((id) => scoreboard?.items?.find((item) => item.id === id)).filter((item) => !!item),
+    [compared, scoreboard]
+  )
+
+  const onPickTeam = (item: ScoreboardItem) => {
+    if (compared.includes(item.id!)) setCompared(compared.filter((id) => id !== item.id))
+    else if (compared.length < MAX_COMPARE_TEAMS) setCompared([...compared, item.id!])
+  }
+
   const { t } = useTranslation()
 
   useEffect(() => {
@@ -304,7 +671,131 @@ export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision })
               leftSection={<Icon path={mdiAccountGroup} size={1} />}
             />
           </Grid.Col>
-          <Grid.Col span={6} />
+          <Grid.Col span={6}>
+            <Group justify="flex-end" h="100%" gap="xs">
+              <Popover position="bottom-end" shadow="md" width="20rem">
+                <Popover.Target>
+                  <Button variant="default" leftSection={<Icon path={mdiTune} size={1} />}>
+                    {t('game.label.score_table.view.title')}
+                  </Button>
+                </Popover.Target>
+                <Popover.Dropdown>
+                  <Stack gap="xs">
+                    <Select
+                      label={t('game.label.score_table.view.sort')}
+                      allowDeselect={false}
+                      data={[
+                        { value: 'score', label: t('game.label.score_table.view.sort_score') },
+                        { value: 'solved', label: t('game.label.score_table.view.sort_solved') },
+                        { value: 'time', label: t('game.label.score_table.view.sort_time') },
+                      ]}
+                      value={prefs.sort}
+                      onChange={(sort) => updatePrefs({ sort: (sort ?? 'score') as ScoreboardSort })}
+                      comboboxProps={{ withinPortal: false }}
+                    />
+                    <MultiSelect
+                      label={t('game.label.score_table.view.categories')}
+                      placeholder={
+                        prefs.categories.length ? undefined : t('game.label.score_table.view.all_categories')
+                      }
+                      data={Object.keys(scoreboard?.challenges ?? {})}
+                      value={prefs.categories}
+                      onChange={(categories) => updatePrefs({ categories })}
+                      clearable
+                      comboboxProps={{ withinPortal: false }}
+                    />
+                    <Text size="xs" c="dimmed">
+                      {t('game.label.score_table.view.collapse')}
+                    </Text>
+                    <Select
+                      label={t('game.label.score_table.view.challenge')}
+                      placeholder={t('game.label.score_table.all_teams')}
+                      data={Object.entries(scoreboard?.challenges ?? {}).map(([group, list]) => ({
+                        group,
+                        items: list.map((c) => ({ value: String(c.id), label: c.title ?? '' })),
+                      }))}
+                      value={prefs.challenge === null ? null : String(prefs.challenge)}
+                      onChange={(value) => updatePrefs({ challenge: value === null ? null : parseInt(value) })}
+                      searchable
+                      clearable
+                      comboboxProps={{ withinPortal: false }}
+                    />
+                    <SegmentedControl
+                      fullWidth
+                      size="xs"
+                      disabled={prefs.challenge === null}
+                      data={[
+                        { value: 'solved', label: t('game.label.score_table.view.solved') },
+                        { value: 'unsolved', label: t('game.label.score_table.view.unsolved') },
+                      ]}
+                      value={prefs.status}
+                      onChange={(status) => updatePrefs({ status: status as ScoreboardPrefs['status'] })}
+                    />
+                    <Switch
+                      label={t('game.label.score_table.view.pin_team')}
+                      disabled={!ownTeam}
+                      checked={prefs.pinned}
+                      onChange={(e) => updatePrefs({ pinned: e.currentTarget.checked })}
+                    />
+                    <Switch
+                      label={t('game.label.score_table.view.continuous')}
+                      checked={prefs.continuous}
+                      onChange={(e) => updatePrefs({ continuous: e.currentTarget.checked })}
+                    />
+                    <Button variant="default" size="xs" onClick={() => setStored(DefaultPrefs)}>
+                      {t('common.button.reset')}
+                    </Button>
+                  </Stack>
+                </Popover.Dropdown>
+              </Popover>
+              {comparing ? (
+                <>
+                  <Text size="sm" c="dimmed">
+                    {t('game.content.compare.hint', { max: MAX_COMPARE_TEAMS })}
+                  </Text>
+                  <Button
+                    leftSection={<Icon path={mdiCompareHorizontal} size={1} />}
+                    disabled={compared.length < 2}
+                    onClick={() => setCompareOpened(true)}
+                  >
+                    {t('game.button.compare.open', { count: compared.length })}
+                  </Button>
+                  <ActionIcon
+                    size="lg"
+                    variant="subtle"
+                    aria-label={t('common.modal.cancel')}
+                    onClick={() => {
+                      setComparing(false)
+                      setCompared([])
+                    }}
+                  >
+                    <Icon path={mdiClose} size={1} />
+                  </ActionIcon>
+                </>
+              ) : (
+                <Button
+                  variant="default"
+                  leftSection={<Icon path={mdiCompareHorizontal} size={1} />}
+                  onClick={() => setComparing(true)}
+                >
+                  {t('game.button.compare.start')}
+                </Button>
+              )}
+              <ScoreboardExportMenu scoreboard={scoreboard} division={division ?? 'all'} />
+              <Tooltip label={t('game.button.big_screen')} transitionProps={{ transition: 'pop' }}>
+                <ActionIcon
+                  size="lg"
+                  variant="subtle"
+                  component="a"
+                  href={`/games/${numId}/scoreboard/screen${division && division !== 'all' ? `?division=${encodeURIComponent(division)}` : ''}`}
+                  target="_blank"
+                  aria-label={t('game.button.big_screen')}
+                >
+                  <Icon path={mdiProjectorScreenOutline} size={1} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+          </Grid.Col>
           <Grid.Col span={3}>
             <TextInput
               placeholder={t('game.placeholder.search_team')}
@@ -314,31 +805,72 @@ export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision })
             />
           </Grid.Col>
         </Grid>
-        <Box pos="relative" mih="calc(100vh - 14rem)">
+        <Box pos="relative" mih="calc(100vh - 14rem)" ref={viewportRef}>
           <Table.ScrollContainer
             minWidth="100%"
             classNames={{
               scrollContainer: misc.noScrollBars,
             }}
           >
-            <Table className={classes.table}>
-              <TableHeader {...scoreboard?.challenges} />
-              <Table.Tbody>
+            <Table className={classes.table} style={{ width: Lefts[5] + columnList.length * COLUMN_WIDTH }}>
+              <TableHeader
+                columns={visibleColumns}
+                padding={padding}
+                challenges={columns}
+                onToggle={onToggleCategory}
+              />
+              <Table.Tbody ref={tbodyRef}>
+                {pinnedItem && (
+                  <TableRow
+                    key={`pinned-${pinnedItem.id}`}
+                    pinned
+                    allRank={division === 'all'}
+                    tableRank={pinnedItem.divisionRank ?? pinnedItem.rank!}
+                    item={pinnedItem}
+                    onOpenDetail={() => {
+                      if (comparing) return onPickTeam(pinnedItem)
+                      setCurrentItem(pinnedItem)
+                      setItemDetailOpened(true)
+                    }}
+                    columns={visibleColumns}
+                    padding={padding}
+                    challenges={columns}
+                    iconMap={iconMap}
+                    change={changes.get(pinnedItem.id!)}
+                    pending={pending?.get(pinnedItem.id!)}
+                  />
+                )}
+                {rowStart > 0 && (
+                  <Table.Tr className={misc.noBorder}>
+                    <Table.Td colSpan={columnList.length + 7} p={0} h={rowStart * ROW_HEIGHT} />
+                  </Table.Tr>
+                )}
                 {scoreboard &&
-                  currentItems?.map((item, idx) => (
+                  currentItems.slice(rowStart, rowEnd).map((item, idx) => (
                     <TableRow
-                      key={base + idx}
+                      key={item.id}
                       allRank={division === 'all'}
-                      tableRank={base + idx + 1}
+                      tableRank={base + rowStart + idx + 1}
                       item={item}
                       onOpenDetail={() => {
+                        if (comparing) return onPickTeam(item)
                         setCurrentItem(item)
                         setItemDetailOpened(true)
                       }}
-                      challenges={scoreboard.challenges}
+                      columns={visibleColumns}
+                      padding={padding}
+                      challenges={columns}
                       iconMap={iconMap}
+                      change={changes.get(item.id!)}
+                      pending={pending?.get(item.id!)}
+                      focused={item.id === focus || compared.includes(item.id!)}
                     />
                   ))}
+                {rowEnd < currentItems.length && (
+                  <Table.Tr className={misc.noBorder}>
+                    <Table.Td colSpan={columnList.length + 7} p={0} h={(currentItems.length - rowEnd) * ROW_HEIGHT} />
+                  </Table.Tr>
+                )}
               </Table.Tbody>
             </Table>
           </Table.ScrollContainer>
@@ -366,12 +898,14 @@ export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision })
           <Text size="sm" c="dimmed">
             {t('game.content.scoreboard_tip')}
           </Text>
-          <Pagination
-            value={activePage}
-            onChange={setPage}
-            total={Math.ceil((filteredList?.length ?? 1) / ITEM_COUNT_PER_PAGE)}
-            boundaries={2}
-          />
+          {!prefs.continuous && (
+            <Pagination
+              value={activePage}
+              onChange={setPage}
+              total={Math.ceil((shownList.length || 1) / ITEM_COUNT_PER_PAGE)}
+              boundaries={2}
+            />
+          )}
         </Group>
       </Stack>
       <ScoreboardItemModal
@@ -380,9 +914,19 @@ export const ScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision })
         opened={itemDetailOpened}
         withCloseButton={false}
         size="45rem"
-        onClose={() => setItemDetailOpened(false)}
+        onClose={() => {
+          if (hashTeam) window.location.hash = ''
+          setItemDetailOpened(false)
+        }}
         item={currentItem}
       />
+      <TeamCompareModal
+        scoreboard={scoreboard}
+        teams={compareTeams}
+        opened={compareOpened}
+        size="80rem"
+        onClose={() => setCompareOpened(false)}
+      />
     </Paper>
   )
 }
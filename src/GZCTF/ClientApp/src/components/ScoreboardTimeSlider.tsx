@@ -0,0 +1,64 @@
+import { Button, Card, Group, Slider, Text } from '@mantine/core'
+import { mdiBroadcast, mdiHistory } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import dayjs from 'dayjs'
+import { FC, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useLanguage } from '@Utils/I18n'
+
+const STEP = 60 * 1000
+
+interface ScoreboardTimeSliderProps {
+  start: number
+  end: number
+  /** null for the current scoreboard */
+  value: number | null
+  onChange: (value: number | null) => void
+}
+
+export const ScoreboardTimeSlider: FC<ScoreboardTimeSliderProps> = ({ start, end, value, onChange }) => {
+  const { t } = useTranslation()
+  const { locale } = useLanguage()
+
+  // rounded down, so it only changes once a step
+  const max = Math.max(Math.min(end, Math.floor(Date.now() / STEP) * STEP), start)
+  // the scoreboard is rebuilt only when the thumb is released
+  const [dragging, setDragging] = useState(value ?? max)
+
+  useEffect(() => {
+    setDragging(value ?? max)
+  }, [value, max])
+
+  const format = (time: number) => dayjs(time).locale(locale).format('SLL LT')
+
+  return (
+    <Card>
+      <Group wrap="nowrap" gap="md">
+        <Icon path={mdiHistory} size={1} />
+        <Text fw="bold" size="sm" miw="fit-content">
+          {value === null ? t('game.label.time_travel.live') : format(value)}
+        </Text>
+        <Slider
+          flex={1}
+          min={start}
+          max={max}
+          step={STEP}
+          value={dragging}
+          label={format}
+          onChange={setDragging}
+          onChangeEnd={(time) => onChange(time >= max ? null : time)}
+          aria-label={t('game.label.time_travel.title')}
+        />
+        <Button
+          size="xs"
+          variant="default"
+          leftSection={<Icon path={mdiBroadcast} size={0.8} />}
+          disabled={value === null}
+          onClick={() => onChange(null)}
+        >
+          {t('game.button.time_travel_live')}
+        </Button>
+      </Group>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+import { CSSProperties, FC, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { DetailedGameInfoModel, ScoreboardModel } from '@Api'
+import classes from '@Styles/ScoreboardWidget.module.css'
+
+const DEFAULT_ROWS = 10
+const DEFAULT_INTERVAL = 30
+const MIN_INTERVAL = 10
+
+export interface WidgetOptions {
+  game: number
+  division: string
+  rows: number
+  theme: 'light' | 'dark' | 'auto'
+  /** css color of the highlights */
+  accent?: string
+  /** refresh interval, in seconds */
+  interval: number
+  language?: string
+}
+
+const readNumber = (value: string | null, fallback: number) => {
+  const num = parseInt(value ?? '')
+  return Number.isNaN(num) || num <= 0 ? fallback : num
+}
+
+/**
+ * Read the options from the query of the embedding url,
+ * e.g. `/embed.html?game=1&division=Student&rows=10&theme=dark&accent=%23ff6b6b&lang=en-US`
+ */
+export const readWidgetOptions = (params: URLSearchParams): WidgetOptions => {
+  const theme = params.get('theme')
+  const accent = params.get('accent')
+
+  return {
+    game: readNumber(params.get('game'), -1),
+    division: params.get('division') || 'all',
+    rows: readNumber(params.get('rows'), DEFAULT_ROWS),
+    theme: theme === 'light' || theme === 'dark' ? theme : 'auto',
+    accent: accent && /^#?[0-9a-f]{3,8}$/i.test(accent) ? `#${accent.replace('#', '')}` : undefined,
+    interval: Math.max(readNumber(params.get('interval'), DEFAULT_INTERVAL), MIN_INTERVAL),
+    language: params.get('lang') ?? undefined,
+  }
+}
+
+/**
+ * Compact top list of a game for external sites, it only uses the public endpoints
+ */
+export const ScoreboardWidget: FC<WidgetOptions> = ({ game, division, rows, theme, accent, interval }) => {
+  const { t, i18n } = useTranslation()
+
+  const [title, setTitle] = useState<string>()
+  const [scoreboard, setScoreboard] = useState<ScoreboardModel>()
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    // plain fetch keeps the generated client out of the widget bundle,
+    // `no-cache` revalidates with the ETag of the scoreboard
+    const load = async () => {
+      try {
+        const [info, board] = await Promise.all(
+          [`/api/game/${game}`, `/api/game/${game}/scoreboard`].map(async (url) => {
+            const res = await fetch(url, { cache: 'no-cache', signal: controller.signal })
+            if (!res.ok) throw new Error(res.statusText)
+            return res.json()
+          })
+        )
+        setTitle((info as DetailedGameInfoModel).title)
+        setScoreboard(board as ScoreboardModel)
+        setError(false)
+      } catch {
+        if (!controller.signal.aborted) setError(true)
+      }
+    }
+
+    load()
+    const timer = setInterval(load, interval * 1000)
+
+    return () => {
+      controller.abort()
+      clearInterval(timer)
+    }
+  }, [game, interval])
+
+  const allRank = division === 'all'
+  const items = (scoreboard?.items ?? []).filter((item) => allRank || item.division === division).slice(0, rows)
+
+  return (
+    <div className={classes.widget} data-theme={theme} style={{ '--widget-accent': accent } as CSSProperties}>
+      <div className={classes.header}>
+        <span className={classes.title}>{title ?? '…'}</span>
+        {!allRank && <span className={classes.division}>{division}</span>}
+      </div>
+      {error && !scoreboard ? (
+        <div className={classes.empty}>{t('common.error.try_later')}</div>
+      ) : (
+        <table className={classes.table}>
+          <thead>
+            <tr>
+              <th>{allRank ? t('game.label.score_table.rank_total') : t('game.label.score_table.rank_division')}</th>
+              <th className={classes.teamCell}>{t('game.label.score_table.team')}</th>
+              <th>{t('game.label.score_table.score_total')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id}>
+                <td className={classes.rank}>{allRank ? item.rank : item.divisionRank}</td>
+                <td className={classes.teamCell}>
+                  <div className={classes.team}>
+                    {item.avatar ? (
+                      <img className={classes.avatar} src={item.avatar} alt="avatar" />
+                    ) : (
+                      <span className={classes.avatar}>{item.name?.slice(0, 1) ?? 'T'}</span>
+                    )}
+                    <span className={classes.name}>{item.name}</span>
+                  </div>
+                </td>
+                <td className={classes.score}>{item.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className={classes.footer}>
+        <span>
+          {scoreboard &&
+            t('game.label.widget.updated', {
+              time: new Date(scoreboard.updateTimeUtc).toLocaleTimeString(i18n.language),
+            })}
+        </span>
+        <a href={`/games/${game}/scoreboard`} target="_blank" rel="noopener">
+          {t('game.label.widget.full')}
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -22,6 +22,7 @@ interface StrengthPasswordInputProps {
   value: string
   disabled?: boolean
   label?: string
+  error?: React.ReactNode
   onChange: React.ChangeEventHandler<HTMLInputElement>
   onKeyDown?: React.KeyboardEventHandler<HTMLInputElement>
 }
@@ -81,6 +82,7 @@ export const StrengthPasswordInput: FC<StrengthPasswordInputProps> = (props) =>
           onBlurCapture={close}
           disabled={props.disabled}
           onChange={props.onChange}
+          error={props.error}
           w="100%"
         />
       </Popover.Target>
@@ -0,0 +1,181 @@
+import { Avatar, Center, Group, Modal, ModalProps, ScrollArea, Stack, Table, Text, Title } from '@mantine/core'
+import { Icon } from '@mdi/react'
+import dayjs from 'dayjs'
+import duration from 'dayjs/plugin/duration'
+import { FC, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { calculateScoreRadar } from '@Components/ScoreboardItemModal'
+import { ScoreTimeLine } from '@Components/charts/ScoreTimeLine'
+import { TeamRadarMap } from '@Components/charts/TeamRadarMap'
+import { useLanguage } from '@Utils/I18n'
+import { toTimeLine } from '@Utils/Scoreboard'
+import { BloodsTypes, SubmissionTypeIconMap } from '@Utils/Shared'
+import { ScoreboardItem, ScoreboardModel, SubmissionType } from '@Api'
+import tableClasses from '@Styles/Table.module.css'
+
+dayjs.extend(duration)
+
+export const MAX_COMPARE_TEAMS = 4
+
+export interface TeamCompareModalProps extends ModalProps {
+  teams: ScoreboardItem[]
+  scoreboard?: ScoreboardModel
+}
+
+const formatGap = (ms: number) => {
+  const gap = dayjs.duration(ms)
+  const hours = Math.floor(gap.asHours())
+  return hours > 0 ? `+${hours}h ${gap.minutes()}m` : `+${gap.minutes()}m ${gap.seconds()}s`
+}
+
+export const TeamCompareModal: FC<TeamCompareModalProps> = (props) => {
+  const { teams, scoreboard, ...modalProps } = props
+  const { t } = useTranslation()
+  const { locale } = useLanguage()
+  const { iconMap } = SubmissionTypeIconMap(0.8)
+
+  const challenges = scoreboard?.challenges
+
+  const challengeIdMap = useMemo(
+    () => new Map(Object.values(challenges ?? {}).flatMap((list) => list.map((c) => [c.id!, c] as const))),
+    [challenges]
+  )
+
+  // solve time of each team on each challenge
+  const solves = useMemo(() => teams.map((team) => new Map(team.solvedChallenges?.map((c) => [c.id!, c]))), [teams])
+
+  const rows = useMemo(
+    () => [...challengeIdMap.values()].filter((chal) => solves.some((map) => map.has(chal.id!))),
+    [challengeIdMap, solves]
+  )
+
+  // the earliest solve among the compared teams
+  const firsts = useMemo(
+    () =>
+      new Map(
+        rows.map((chal) => {
+          const times = solves.map((map) => map.get(chal.id!)?.time ?? Infinity)
+          return [chal.id!, Math.min(...times)]
+        })
+      ),
+    [rows, solves]
+  )
+
+  const radar = useMemo(() => {
+    if (!challenges || teams.length === 0) return null
+    const [first, ...rest] = teams.map((team) => calculateScoreRadar(challenges, challengeIdMap, team))
+    return { ...first, others: rest.map(({ name, value }) => ({ name, value })) }
+  }, [challenges, challengeIdMap, teams])
+
+  const timeLineBoard = useMemo(
+    () => scoreboard && { ...scoreboard, timeLines: { all: teams.map(toTimeLine) } },
+    [scoreboard, teams]
+  )
+
+  return (
+    <Modal {...modalProps} title={<Title order={4}>{t('game.label.compare.title')}</Title>}>
+      <Stack gap="md">
+        <Table className={tableClasses.table}>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t('common.label.team')}</Table.Th>
+              <Table.Th>{t('game.label.score_table.rank_total')}</Table.Th>
+              <Table.Th>{t('game.label.score_table.score')}</Table.Th>
+              <Table.Th>{t('game.label.score_table.solved_count')}</Table.Th>
+              {BloodsTypes.map((type) => (
+                <Table.Th key={type}>
+                  <Icon {...iconMap.get(type)!} />
+                </Table.Th>
+              ))}
+              <Table.Th>{t('game.label.compare.first_solves')}</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {teams.map((team, idx) => (
+              <Table.Tr key={team.id}>
+                <Table.Td>
+                  <Group gap="xs" wrap="nowrap">
+                    <Avatar alt="avatar" src={team.avatar} radius="xl" size={24}>
+                      {team.name?.slice(0, 1) ?? 'T'}
+                    </Avatar>
+                    <Text fw="bold" size="sm" truncate>
+                      {team.name}
+                    </Text>
+                  </Group>
+                </Table.Td>
+                <Table.Td ff="monospace">{team.rank}</Table.Td>
+                <Table.Td ff="monospace">{team.score}</Table.Td>
+                <Table.Td ff="monospace">{team.solvedCount}</Table.Td>
+                {BloodsTypes.map((type) => (
+                  <Table.Td key={type} ff="monospace">
+                    {team.solvedChallenges?.filter((c) => c.type === type).length ?? 0}
+                  </Table.Td>
+                ))}
+                <Table.Td ff="monospace">
+                  {rows.filter((chal) => solves[idx].get(chal.id!)?.time === firsts.get(chal.id!)).length}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+        <Group wrap="nowrap" align="flex-start" gap="md">
+          <Center h="22rem" w="40%">
+            {radar && <TeamRadarMap {...radar} />}
+          </Center>
+          <Stack w="60%">
+            <ScoreTimeLine division="all" scoreboard={timeLineBoard} />
+          </Stack>
+        </Group>
+        <ScrollArea h="20rem" scrollbars="y">
+          <Table className={tableClasses.table}>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>{t('common.label.challenge')}</Table.Th>
+                {teams.map((team) => (
+                  <Table.Th key={team.id}>{team.name}</Table.Th>
+                ))}
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map((chal) => (
+                <Table.Tr key={chal.id}>
+                  <Table.Td>
+                    <Text size="sm" fw={500} truncate>
+                      {chal.title}
+                    </Text>
+                    <Text size="xs" c="dimmed">
+                      {chal.category}
+                    </Text>
+                  </Table.Td>
+                  {solves.map((map, idx) => {
+                    const solve = map.get(chal.id!)
+                    if (!solve) return <Table.Td key={teams[idx].id} />
+
+                    const first = firsts.get(chal.id!)!
+                    const icon = iconMap.get(solve.type ?? SubmissionType.Normal)
+
+                    return (
+                      <Table.Td key={teams[idx].id}>
+                        <Group gap={4} wrap="nowrap">
+                          {icon && <Icon {...icon} />}
+                          <Text size="sm" ff="monospace" fw={solve.time === first ? 'bold' : undefined}>
+                            {dayjs(solve.time).locale(locale).format('SL HH:mm:ss')}
+                          </Text>
+                          {solve.time !== first && (
+                            <Text size="xs" c="dimmed" ff="monospace">
+                              {formatGap((solve.time ?? 0) - first)}
+                            </Text>
+                          )}
+                        </Group>
+                      </Table.Td>
+                    )
+                  })}
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Modal>
+  )
+}
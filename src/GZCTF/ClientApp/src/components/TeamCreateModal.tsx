@@ -10,11 +10,13 @@ import {
   Title,
   useMantineTheme,
 } from '@mantine/core'
+import { useForm } from '@mantine/form'
 import { showNotification } from '@mantine/notifications'
 import { mdiCheck, mdiCloseCircle } from '@mdi/js'
 import { Icon } from '@mdi/react'
 import { FC, useState } from 'react'
 import { Trans, useTranslation } from 'react-i18next'
+import { setFormErrors } from '@Utils/ApiHelper'
 import { showErrorMsg } from '@Utils/Shared'
 import api, { TeamUpdateModel } from '@Api'
 
@@ -25,7 +27,7 @@ interface TeamEditModalProps extends ModalProps {
 
 export const TeamCreateModal: FC<TeamEditModalProps> = (props) => {
   const { disallowCreate, mutate, ...modalProps } = props
-  const [createTeam, setCreateTeam] = useState<TeamUpdateModel>({ name: '', bio: '' })
+  const form = useForm<TeamUpdateModel>({ initialValues: { name: '', bio: '' } })
   const [disabled, setDisabled] = useState(false)
   const theme = useMantineTheme()
 
@@ -35,18 +37,18 @@ export const TeamCreateModal: FC<TeamEditModalProps> = (props) => {
     setDisabled(true)
 
     try {
-      const res = await api.team.teamCreateTeam(createTeam)
+      const res = await api.team.teamCreateTeam(form.getValues())
       showNotification({
         color: 'teal',
         title: t('team.notification.create.success.title'),
         message: t('team.notification.create.success.message', { team: res.data.name }),
         icon: <Icon path={mdiCheck} size={1} />,
       })
-      setCreateTeam({ name: '', bio: '' })
+      form.reset()
       mutate()
       modalProps.onClose()
     } catch (e) {
-      showErrorMsg(e, t)
+      if (!setFormErrors(form, e)) showErrorMsg(e, t)
     } finally {
       setDisabled(false)
     }
@@ -73,19 +75,17 @@ export const TeamCreateModal: FC<TeamEditModalProps> = (props) => {
             placeholder="team"
             w="100%"
             disabled={disabled}
-            value={createTeam?.name ?? ''}
-            onChange={(event) => setCreateTeam({ ...createTeam, name: event.currentTarget.value })}
+            {...form.getInputProps('name')}
           />
           <Textarea
             label={t('team.label.bio')}
-            placeholder={createTeam?.bio ?? t('team.placeholder.bio')}
-            value={createTeam?.bio ?? ''}
+            placeholder={t('team.placeholder.bio')}
             w="100%"
             autosize
             minRows={2}
             maxRows={4}
             disabled={disabled}
-            onChange={(event) => setCreateTeam({ ...createTeam, bio: event.currentTarget.value })}
+            {...form.getInputProps('bio')}
           />
           <Button fullWidth variant="outline" onClick={onCreateTeam} disabled={disabled}>
             {t('team.button.create')}
@@ -1,14 +1,22 @@
 import { Button, Group, LoadingOverlay, Stack, Tabs } from '@mantine/core'
-import { mdiExclamationThick, mdiFlag, mdiLightningBolt, mdiPackageVariant, mdiTableArrowDown } from '@mdi/js'
+import {
+  mdiExclamationThick,
+  mdiFlag,
+  mdiLightningBolt,
+  mdiPackageVariant,
+  mdiPresentationPlay,
+  mdiTableArrowDown,
+} from '@mdi/js'
 import { Icon } from '@mdi/react'
 import React, { FC, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useLocation, useNavigate, useParams } from 'react-router'
 import { WithGameTab } from '@Components/WithGameTab'
 import { WithNavBar } from '@Components/WithNavbar'
-import { WithRole } from '@Components/WithRole'
+import { RequireRole, WithRole } from '@Components/WithRole'
 import { downloadBlob } from '@Utils/ApiHelper'
 import { DEFAULT_LOADING_OVERLAY } from '@Utils/Shared'
+import { useUserRole } from '@Hooks/useUser'
 import api, { Role } from '@Api'
 import misc from '@Styles/Misc.module.css'
 
@@ -23,6 +31,7 @@ export const WithGameMonitor: FC<WithGameMonitorProps> = ({ children, isLoading
   const navigate = useNavigate()
   const location = useLocation()
   const { t } = useTranslation()
+  const { role } = useUserRole()
 
   const pages = [
     { icon: mdiLightningBolt, title: t('game.tab.monitor.events'), path: 'events' },
@@ -68,6 +77,17 @@ export const WithGameMonitor: FC<WithGameMonitorProps> = ({ children, isLoading
               >
                 {t('game.button.download.scoreboard')}
               </Button>
+              {RequireRole(Role.Admin, role) && (
+                <Button
+                  w="10rem"
+                  variant="default"
+                  classNames={{ inner: misc.justifyBetween }}
+                  leftSection={<Icon path={mdiPresentationPlay} size={1} />}
+                  onClick={() => navigate(`/games/${numId}/scoreboard/reveal`)}
+                >
+                  {t('game.button.reveal.index')}
+                </Button>
+              )}
               <Tabs
                 orientation="vertical"
                 value={activeTab}
@@ -19,7 +19,7 @@ import misc from '@Styles/Misc.module.css'
 
 dayjs.extend(duration)
 
-const GameCountdown: FC<{ game?: DetailedGameInfoModel }> = ({ game }) => {
+export const GameCountdown: FC<{ game?: DetailedGameInfoModel }> = ({ game }) => {
   const { endTime, progress } = getGameStatus(game)
 
   const [now, setNow] = useState(dayjs())
@@ -4,11 +4,14 @@ import { AppFooter } from '@Components/AppFooter'
 import { AppHeader } from '@Components/AppHeader'
 import { AppNavbar } from '@Components/AppNavbar'
 import { CustomColorModal } from '@Components/CustomColorModal'
+import { DiagnosticsDrawer } from '@Components/DiagnosticsDrawer'
 import { IconHeader } from '@Components/IconHeader'
+import { KeyboardShortcuts } from '@Components/KeyboardShortcuts'
 import { Watermark } from '@Components/Watermark'
 import { WithWiderScreen } from '@Components/WithWiderScreen'
 import { DEFAULT_LOADING_OVERLAY } from '@Utils/Shared'
 import { useIsMobile } from '@Utils/ThemeOverride'
+import { useDiagnostics } from '@Hooks/useDiagnostics'
 import { useUser } from '@Hooks/useUser'
 import classes from '@Styles/AppNavbar.module.css'
 
@@ -23,6 +26,8 @@ interface WithNavBarProps extends React.PropsWithChildren {
 
 export interface AppControlProps {
   openColorModal: () => void
+  /** undefined if diagnostics are not available to the user */
+  openDiagnostics?: () => void
 }
 
 export const WithNavBar: FC<WithNavBarProps> = ({
@@ -40,7 +45,11 @@ export const WithNavBar: FC<WithNavBarProps> = ({
   const isMobile = useIsMobile()
   const [colorModalOpened, setColorModalOpened] = useState(false)
 
+  const { available: diagnosticsAvailable } = useDiagnostics()
+  const [diagnosticsOpened, setDiagnosticsOpened] = useState(false)
+
   const openColorModal = () => setColorModalOpened(true)
+  const openDiagnostics = diagnosticsAvailable ? () => setDiagnosticsOpened(true) : undefined
 
   return (
     <WithWiderScreen minWidth={minWidth}>
@@ -63,8 +72,8 @@ export const WithNavBar: FC<WithNavBarProps> = ({
             },
           }}
         >
-          <AppHeader openColorModal={openColorModal} />
-          <AppNavbar openColorModal={openColorModal} />
+          <AppHeader openColorModal={openColorModal} openDiagnostics={openDiagnostics} />
+          <AppNavbar openColorModal={openColorModal} openDiagnostics={openDiagnostics} />
           <AppShell.Main w="100%">
             <Stack data-mobile={isMobile || undefined} data-pb={withFooter || undefined} className={classes.main}>
               <LoadingOverlay visible={isLoading ?? false} overlayProps={DEFAULT_LOADING_OVERLAY} />
@@ -78,6 +87,10 @@ export const WithNavBar: FC<WithNavBarProps> = ({
                 {children}
               </Box>
               <CustomColorModal opened={colorModalOpened} onClose={() => setColorModalOpened(false)} />
+              <KeyboardShortcuts />
+              {diagnosticsAvailable && (
+                <DiagnosticsDrawer opened={diagnosticsOpened} onClose={() => setDiagnosticsOpened(false)} />
+              )}
             </Stack>
             {withFooter && <AppFooter />}
           </AppShell.Main>
@@ -15,7 +15,7 @@ import {
   useMantineTheme,
 } from '@mantine/core'
 import { showNotification } from '@mantine/notifications'
-import { mdiCheck, mdiExclamationThick, mdiFileDocumentOutline, mdiFileHidden } from '@mdi/js'
+import { mdiCheck, mdiExclamationThick, mdiFileDocumentOutline, mdiFileHidden, mdiNoteTextOutline } from '@mdi/js'
 import { Icon } from '@mdi/react'
 import cx from 'clsx'
 import dayjs from 'dayjs'
@@ -25,7 +25,9 @@ import { Markdown } from '@Components/MarkdownRenderer'
 import { useLanguage } from '@Utils/I18n'
 import { showErrorMsg } from '@Utils/Shared'
 import { HunamizeSize } from '@Utils/Shared'
+import { useNotesExport } from '@Hooks/useChallengeNotes'
 import { OnceSWRConfig } from '@Hooks/useConfig'
+import { useGame } from '@Hooks/useGame'
 import api from '@Api'
 import misc from '@Styles/Misc.module.css'
 import uploadClasses from '@Styles/Upload.module.css'
@@ -37,6 +39,8 @@ interface WriteupSubmitModalProps extends ModalProps {
 
 export const WriteupSubmitModal: FC<WriteupSubmitModalProps> = ({ gameId, writeupDeadline: wpddl, ...props }) => {
   const { data, mutate } = api.game.useGameGetWriteup(gameId, OnceSWRConfig)
+  const { game } = useGame(gameId)
+  const onExportNotes = useNotesExport(gameId, game?.title ?? '')
 
   const theme = useMantineTheme()
   const [ddl, setDdl] = useState(dayjs(wpddl))
@@ -168,6 +172,14 @@ export const WriteupSubmitModal: FC<WriteupSubmitModalProps> = ({ gameId, writeu
             </Group>
           )}
         </Card>
+        <Button
+          fullWidth
+          variant="default"
+          leftSection={<Icon path={mdiNoteTextOutline} size={0.9} />}
+          onClick={onExportNotes}
+        >
+          {t('game.button.writeup.notes')}
+        </Button>
         <FileButton onChange={onUpload} accept="application/pdf">
           {(props) => (
             <Button
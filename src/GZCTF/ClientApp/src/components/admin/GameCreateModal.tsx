@@ -1,6 +1,6 @@
 import { Button, Group, Modal, ModalProps, Stack, TextInput } from '@mantine/core'
 import { DatePickerInput, TimeInput } from '@mantine/dates'
-import { useInputState } from '@mantine/hooks'
+import { useForm } from '@mantine/form'
 import { showNotification } from '@mantine/notifications'
 import { mdiCheck, mdiClose } from '@mdi/js'
 import { Icon } from '@mdi/react'
@@ -8,6 +8,7 @@ import dayjs from 'dayjs'
 import { FC, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router'
+import { setFormErrors } from '@Utils/ApiHelper'
 import { showErrorMsg } from '@Utils/Shared'
 import api, { GameInfoModel } from '@Api'
 
@@ -19,9 +20,16 @@ export const GameCreateModal: FC<GameCreateModalProps> = (props) => {
   const { onAddGame, ...modalProps } = props
   const [disabled, setDisabled] = useState(false)
   const navigate = useNavigate()
-  const [title, setTitle] = useInputState('')
-  const [start, setStart] = useInputState(dayjs())
-  const [end, setEnd] = useInputState(dayjs().add(2, 'h'))
+  const form = useForm({
+    initialValues: {
+      title: '',
+      start: dayjs(),
+      end: dayjs().add(2, 'h'),
+    },
+  })
+  const { title, start, end } = form.values
+  const setStart = (value: dayjs.Dayjs) => form.setFieldValue('start', value)
+  const setEnd = (value: dayjs.Dayjs) => form.setFieldValue('end', value)
 
   const { t } = useTranslation()
 
@@ -52,7 +60,7 @@ export const GameCreateModal: FC<GameCreateModalProps> = (props) => {
       onAddGame(res.data)
       navigate(`/admin/games/${res.data.id}/info`)
     } catch (e) {
-      showErrorMsg(e, t)
+      if (!setFormErrors(form, e)) showErrorMsg(e, t)
       setDisabled(false)
     }
   }
@@ -65,8 +73,7 @@ export const GameCreateModal: FC<GameCreateModalProps> = (props) => {
           type="text"
           required
           w="100%"
-          value={title}
-          onChange={setTitle}
+          {...form.getInputProps('title')}
         />
 
         <Group grow justify="space-between">
@@ -75,6 +82,7 @@ export const GameCreateModal: FC<GameCreateModalProps> = (props) => {
             size="sm"
             value={start.toDate()}
             clearable={false}
+            error={form.errors.start}
             onChange={(e) => {
               const newDate = dayjs(e).hour(start.hour()).minute(start.minute()).second(start.second())
               setStart(newDate)
@@ -114,7 +122,7 @@ export const GameCreateModal: FC<GameCreateModalProps> = (props) => {
               const newDate = dayjs(e).hour(end.hour()).minute(end.minute()).second(end.second())
               setEnd(newDate)
             }}
-            error={end < start}
+            error={form.errors.end || end < start}
             required
           />
           <TimeInput
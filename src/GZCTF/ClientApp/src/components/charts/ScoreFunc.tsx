@@ -3,6 +3,7 @@ import type { EChartsOption } from 'echarts'
 import { FC, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import { EchartsContainer } from '@Components/charts/EchartsContainer'
+import { dynamicScore } from '@Utils/Scoreboard'
 
 interface ScoreFuncProps {
   originalScore: number
@@ -13,10 +14,7 @@ interface ScoreFuncProps {
 
 export const ScoreFunc: FC<ScoreFuncProps> = ({ originalScore, difficulty, minScoreRate, currentAcceptCount }) => {
   const toX = (x: number) => (x * 6 * difficulty) / 100
-  const func = (x: number) =>
-    x <= 1
-      ? originalScore
-      : Math.floor(originalScore * (minScoreRate + (1 - minScoreRate) * Math.exp((1 - x) / difficulty)))
+  const func = (x: number) => dynamicScore(originalScore, difficulty, minScoreRate, x)
 
   const curScore = func(currentAcceptCount)
   const showCount = currentAcceptCount > 5.8 * difficulty ? 5.8 * difficulty : currentAcceptCount
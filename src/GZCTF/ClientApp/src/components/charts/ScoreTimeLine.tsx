@@ -7,17 +7,21 @@ import { useParams } from 'react-router'
 import { EchartsContainer } from '@Components/charts/EchartsContainer'
 import { normalizeLanguage, useLanguage } from '@Utils/I18n'
 import { getGameStatus, useGame, useGameScoreboard } from '@Hooks/useGame'
+import { ScoreboardModel } from '@Api'
 
 interface TimeLineProps {
   division: string | null
+  /** drawn instead of the scoreboard of the game */
+  scoreboard?: ScoreboardModel
 }
 
-export const ScoreTimeLine: FC<TimeLineProps> = ({ division }) => {
+export const ScoreTimeLine: FC<TimeLineProps> = ({ division, scoreboard: shown }) => {
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
   const theme = useMantineTheme()
 
-  const { scoreboard } = useGameScoreboard(numId)
+  const { scoreboard: fetched } = useGameScoreboard(numId)
+  const scoreboard = shown ?? fetched
 
   const { game } = useGame(numId)
 
@@ -7,9 +7,11 @@ export interface TeamRadarMapProps {
   indicator: { name: string; max: number }[]
   value: number[]
   name: string
+  /** other teams drawn over the team, a legend is shown then */
+  others?: { name: string; value: number[] }[]
 }
 
-export const TeamRadarMap: FC<TeamRadarMapProps> = ({ indicator, value, name }) => {
+export const TeamRadarMap: FC<TeamRadarMapProps> = ({ indicator, value, name, others }) => {
   const theme = useMantineTheme()
   const { colorScheme } = useMantineColorScheme()
 
@@ -17,8 +19,16 @@ export const TeamRadarMap: FC<TeamRadarMapProps> = ({ indicator, value, name })
     () =>
       ({
         animation: true,
-        color: theme.colors[theme.primaryColor][5],
+        color: others?.length
+          ? [theme.primaryColor, 'orange', 'teal', 'grape'].map((color) => theme.colors[color][5])
+          : theme.colors[theme.primaryColor][5],
         backgroundColor: 'transparent',
+        legend: others?.length
+          ? {
+              bottom: 0,
+              textStyle: { color: colorScheme === 'dark' ? theme.colors.light[1] : theme.colors.dark[5] },
+            }
+          : undefined,
         radar: {
           indicator,
           shape: 'circle',
@@ -37,18 +47,25 @@ export const TeamRadarMap: FC<TeamRadarMapProps> = ({ indicator, value, name })
                 value,
                 name,
                 areaStyle: {
-                  color: alpha(theme.colors[theme.primaryColor][4], 0.8),
+                  color: alpha(theme.colors[theme.primaryColor][4], others?.length ? 0.25 : 0.8),
                 },
                 lineStyle: {
                   width: 2,
                 },
                 symbolSize: 4,
               },
+              ...(others ?? []).map((other) => ({
+                ...other,
+                lineStyle: {
+                  width: 2,
+                },
+                symbolSize: 4,
+              })),
             ],
           },
         ],
       }) satisfies EChartsOption,
-    [alpha, theme, indicator, value, name]
+    [alpha, theme, indicator, value, name, others]
   )
 
   return (
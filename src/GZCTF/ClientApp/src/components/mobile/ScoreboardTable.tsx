@@ -1,13 +1,14 @@
 import { Avatar, Box, Group, Pagination, Paper, Select, Stack, Table, useMantineTheme } from '@mantine/core'
 import cx from 'clsx'
-import React, { FC, useEffect, useState, useMemo } from 'react'
+import React, { FC, useEffect, useState, useMemo, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useParams } from 'react-router'
-import { ScoreboardProps } from '@Components/ScoreboardTable'
+import { RankDelta, ScoreboardProps } from '@Components/ScoreboardTable'
 import { ScrollingText } from '@Components/ScrollingText'
 import { MobileScoreboardItemModal } from '@Components/mobile/ScoreboardItemModal'
 import { BloodBonus, useBonusLabels } from '@Utils/Shared'
 import { useGameScoreboard } from '@Hooks/useGame'
+import { ScoreboardItemChange, useFlipRows, useScoreboardChanges } from '@Hooks/useScoreboardChanges'
 import { ScoreboardItem } from '@Api'
 import misc from '@Styles/Misc.module.css'
 import classes from '@Styles/ScoreboardTable.module.css'
@@ -18,7 +19,8 @@ const SCORE_WIDTH = 70
 const TableRow: FC<{
   item: ScoreboardItem
   onOpenDetail: () => void
-}> = React.memo(({ item, onOpenDetail }) => {
+  change?: ScoreboardItemChange
+}> = React.memo(({ item, onOpenDetail, change }) => {
   const theme = useMantineTheme()
   const solved = item.solvedChallenges
 
@@ -27,8 +29,11 @@ const TableRow: FC<{
   }, [solved])
 
   return (
-    <Table.Tr>
-      <Table.Td className={cx(classes.mono, classes.left)}>{item.rank}</Table.Td>
+    <Table.Tr data-flip-key={item.id}>
+      <Table.Td className={cx(classes.mono, classes.left)}>
+        {item.rank}
+        <RankDelta delta={change?.rank} />
+      </Table.Td>
       <Table.Td className={cx(classes.left, classes.teamCell)}>
         <Group justify="left" gap={5} wrap="nowrap" style={{ minWidth: 0, flex: 1 }}>
           <Avatar
@@ -49,20 +54,32 @@ const TableRow: FC<{
           />
         </Group>
       </Table.Td>
-      <Table.Td className={cx(classes.mono, classes.left)}>{totalScore}</Table.Td>
+      <Table.Td className={cx(classes.mono, classes.left, !!change?.solved.length && classes.solved)}>
+        {totalScore}
+      </Table.Td>
     </Table.Tr>
   )
 })
 
 const ITEM_COUNT_PER_PAGE = 10
 
-export const MobileScoreboardTable: FC<ScoreboardProps> = ({ division, setDivision }) => {
+export const MobileScoreboardTable: FC<ScoreboardProps> = ({
+  division,
+  setDivision,
+  changeWindow,
+  scoreboard: shown,
+}) => {
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
   const [activePage, setPage] = useState(1)
   const [bloodBonus, setBloodBonus] = useState(BloodBonus.default)
 
-  const { scoreboard } = useGameScoreboard(numId)
+  const { scoreboard: fetched } = useGameScoreboard(numId)
+  const scoreboard = shown ?? fetched
+  const changes = useScoreboardChanges(numId, scoreboard?.items, changeWindow)
+  const tbodyRef = useRef<HTMLTableSectionElement>(null)
+
+  useFlipRows(tbodyRef, scoreboard?.items)
 
   const filtered = useMemo(() => {
     return division === 'all' ? scoreboard?.items : scoreboard?.items?.filter((s) => s.division === division)
@@ -135,12 +152,13 @@ export const MobileScoreboardTable: FC<ScoreboardProps> = ({ division, setDivisi
                 </Table.Th>
               </Table.Tr>
             </Table.Thead>
-            <Table.Tbody>
+            <Table.Tbody ref={tbodyRef}>
               {scoreboard &&
-                currentItems?.map((item, idx) => (
+                currentItems?.map((item) => (
                   <TableRow
-                    key={base + idx}
+                    key={item.id}
                     item={item}
+                    change={changes.get(item.id!)}
                     onOpenDetail={() => {
                       setCurrentItem(item)
                       setItemDetailOpened(true)
@@ -0,0 +1,37 @@
+import i18n from 'i18next'
+import resourcesToBackend from 'i18next-resources-to-backend'
+import ReactDOM from 'react-dom/client'
+import { initReactI18next } from 'react-i18next'
+import manifest from 'virtual:i18n-manifest'
+import { ScoreboardWidget, readWidgetOptions } from '@Components/ScoreboardWidget'
+
+// entry of embed.html, only the widget is bundled so external pages stay light
+
+const options = readWidgetOptions(new URLSearchParams(window.location.search))
+
+const matchLanguage = (language: string) => {
+  const lang = language.toLowerCase()
+  if (manifest[lang]) return lang
+  return Object.keys(manifest).find((key) => key.split('-')[0] === lang.split('-')[0]) ?? 'en-us'
+}
+
+i18n
+  .use(initReactI18next)
+  .use(
+    resourcesToBackend(async (lang: string, _: string) => {
+      const file = manifest[lang.toLowerCase()]
+      if (!file) return {}
+      const response = await fetch(`/static/${file}`)
+      return response.json()
+    })
+  )
+  .init({
+    lng: matchLanguage(options.language ?? navigator.language),
+    fallbackLng: 'en-us',
+    lowerCaseLng: true,
+    interpolation: {
+      escapeValue: false,
+    },
+  })
+
+ReactDOM.createRoot(document.getElementById('root')!).render(<ScoreboardWidget {...options} />)
@@ -0,0 +1,69 @@
+import { showNotification } from '@mantine/notifications'
+import { mdiClose } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import * as signalR from '@microsoft/signalr'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useHub, useHubEvent } from '@Components/HubProvider'
+import { ChallengeClaimModel, ClaimStatus, applyClaim } from '@Utils/Claims'
+
+const EmptyClaims: ChallengeClaimModel[] = []
+
+/**
+ * Work status of the team members on the challenges of a game, kept in sync through the user hub
+ */
+export const useChallengeClaims = (gameId: number, enabled = true) => {
+  const { t } = useTranslation()
+  const [claims, setClaims] = useState<ChallengeClaimModel[]>([])
+
+  const { connection, state, reconnects } = useHub('user', { game: gameId, enabled })
+  const online = state === signalR.HubConnectionState.Connected
+
+  useEffect(() => {
+    if (!connection || !online) return
+    let active = true
+
+    // claims changed while disconnected are only known to the server
+    connection
+      .invoke<ChallengeClaimModel[]>('GetClaims')
+      .then((list) => {
+        if (active) setClaims(list ?? [])
+      })
+      .catch((e) => console.warn('[claims] failed to load', e))
+
+    return () => {
+      active = false
+    }
+  }, [connection, online, reconnects])
+
+  useHubEvent('ReceivedClaim', (claim) => setClaims((current) => applyClaim(current, claim)), {
+    game: gameId,
+    enabled,
+  })
+
+  const claimMap = useMemo(() => {
+    const map = new Map<number, ChallengeClaimModel[]>()
+    claims.forEach((claim) => map.set(claim.challengeId, [...(map.get(claim.challengeId) ?? []), claim]))
+    return map
+  }, [claims])
+
+  const getClaims = (challengeId: number) => claimMap.get(challengeId) ?? EmptyClaims
+
+  /**
+   * Set the status of the current user, the server pushes the result back to every member
+   */
+  const onClaim = async (challengeId: number, status: ClaimStatus | null) => {
+    try {
+      const accepted = await connection?.invoke<boolean>('UpdateClaim', challengeId, status)
+      if (!accepted) throw new Error('claim rejected')
+    } catch {
+      showNotification({
+        color: 'red',
+        message: t('challenge.claim.notification.failed'),
+        icon: <Icon path={mdiClose} size={1} />,
+      })
+    }
+  }
+
+  return { getClaims, onClaim, online }
+}
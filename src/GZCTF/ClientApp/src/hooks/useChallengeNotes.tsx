@@ -0,0 +1,161 @@
+import { useDebouncedCallback } from '@mantine/hooks'
+import { showNotification } from '@mantine/notifications'
+import { mdiClose } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import * as signalR from '@microsoft/signalr'
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useHub, useHubEvent } from '@Components/HubProvider'
+import { openBlob } from '@Utils/ApiHelper'
+import { ChallengeNote, ScratchpadModel, getGameNotes, getNote, saveNote, toNotesBundle } from '@Utils/Notes'
+
+const SAVE_DELAY = 500
+const SYNC_DELAY = 800
+
+export type NoteTarget = Pick<ChallengeNote, 'gameId' | 'challengeId' | 'challengeTitle' | 'category'>
+
+/**
+ * Private note and team scratchpad of a challenge.
+ * The private note stays in this browser, the scratchpad is synced through the user hub
+ * and its last seen copy is kept for the notes bundle.
+ */
+export const useChallengeNotes = (target: NoteTarget) => {
+  const { gameId, challengeId } = target
+  const { t } = useTranslation()
+
+  const [note, setNote] = useState('')
+  const [scratchpad, setScratchpad] = useState<ScratchpadModel | null>(null)
+  // local edits not yet sent, remote updates must not overwrite them
+  const dirty = useRef(false)
+  // time of the remote scratchpad the local edits are based on, the hub rejects stale writes
+  const base = useRef(0)
+
+  const { connection, state, reconnects } = useHub('user', { game: gameId })
+  const online = state === signalR.HubConnectionState.Connected
+
+  const keep = (content: string, time: number) => saveNote({ ...target, scope: 'team', content, updatedAt: time })
+
+  useEffect(() => {
+    let active = true
+    setNote('')
+    setScratchpad(null)
+    base.current = 0
+
+    getNote('private', gameId, challengeId).then((stored) => {
+      if (active && stored) setNote(stored.content)
+    })
+    getNote('team', gameId, challengeId).then((stored) => {
+      if (active && stored) setScratchpad((current) => current ?? { ...stored, time: stored.updatedAt })
+    })
+
+    return () => {
+      active = false
+    }
+  }, [gameId, challengeId])
+
+  useEffect(() => {
+    if (!connection || !online) return
+    let active = true
+
+    connection
+      .invoke<ScratchpadModel | null>('GetScratchpad', challengeId)
+      .then((remote) => {
+        if (!active || dirty.current) return
+        base.current = remote?.time ?? 0
+        if (!remote) return
+        setScratchpad(remote)
+        void keep(remote.content, remote.time)
+      })
+      .catch((e) => console.warn('[notes] failed to load the scratchpad', e))
+
+    return () => {
+      active = false
+    }
+  }, [connection, online, reconnects, challengeId])
+
+  useHubEvent(
+    'ReceivedScratchpad',
+    (remote) => {
+      if (remote.challengeId !== challengeId || dirty.current) return
+      base.current = remote.time
+      setScratchpad(remote)
+      void keep(remote.content, remote.time)
+    },
+    { game: gameId }
+  )
+
+  const persistNote = useDebouncedCallback((next: Omit<ChallengeNote, 'id'>) => saveNote(next), {
+    delay: SAVE_DELAY,
+    flushOnUnmount: true,
+  })
+
+  const syncScratchpad = useDebouncedCallback(
+    async (id: number, content: string) => {
+      dirty.current = false
+      try {
+        const stored = await connection?.invoke<ScratchpadModel | null>('UpdateScratchpad', id, content, base.current)
+        if (!stored) throw new Error('scratchpad rejected')
+
+        base.current = stored.time
+        if (stored.content !== content) {
+          // a teammate saved in between, show their version instead of overwriting it
+          syncScratchpad.cancel()
+          dirty.current = false
+          setScratchpad(stored)
+          showNotification({
+            color: 'orange',
+            message: t('challenge.notes.notification.conflict'),
+            icon: <Icon path={mdiClose} size={1} />,
+          })
+        }
+        await keep(stored.content, stored.time)
+      } catch {
+        showNotification({
+          color: 'red',
+          message: t('challenge.notes.notification.sync_failed'),
+          icon: <Icon path={mdiClose} size={1} />,
+        })
+      }
+    },
+    { delay: SYNC_DELAY, flushOnUnmount: true }
+  )
+
+  const onNoteChange = (content: string) => {
+    setNote(content)
+    persistNote({ ...target, scope: 'private', content, updatedAt: Date.now() })
+  }
+
+  const onScratchpadChange = (content: string) => {
+    dirty.current = true
+    setScratchpad({ challengeId, content, time: Date.now() })
+    syncScratchpad(challengeId, content)
+  }
+
+  return { note, onNoteChange, scratchpad, onScratchpadChange, online }
+}
+
+/**
+ * Download all notes of a game as a Markdown bundle, returns false if there is nothing to export
+ */
+export const useNotesExport = (gameId: number, gameTitle: string) => {
+  const { t } = useTranslation()
+
+  return async () => {
+    const notes = await getGameNotes(gameId)
+    if (!notes.some((note) => note.content.trim())) {
+      showNotification({
+        color: 'orange',
+        message: t('challenge.notes.notification.empty'),
+        icon: <Icon path={mdiClose} size={1} />,
+      })
+      return false
+    }
+
+    const bundle = toNotesBundle(gameTitle, notes, {
+      private: t('challenge.notes.private'),
+      team: t('challenge.notes.team'),
+    })
+    openBlob(new Blob([bundle], { type: 'text/markdown' }), `Notes_${gameId}_${Date.now()}.md`)
+    return true
+  }
+}
@@ -0,0 +1,25 @@
+import { useLocalStorage } from '@mantine/hooks'
+import { useEffect, useSyncExternalStore } from 'react'
+import { getRequestRecords, setDiagnosticsEnabled, subscribeRequestRecords } from '@Utils/Diagnostics'
+import { useUserRole } from '@Hooks/useUser'
+import { Role } from '@Api'
+
+/**
+ * Diagnostics are always available to admins, other users opt in from the profile
+ */
+export const useDiagnostics = () => {
+  const { role } = useUserRole()
+  const [optedIn, setOptedIn] = useLocalStorage<boolean>({
+    key: 'diagnostics-enabled',
+    defaultValue: false,
+    getInitialValueInEffect: false,
+  })
+
+  const available = role === Role.Admin || optedIn
+
+  useEffect(() => setDiagnosticsEnabled(available), [available])
+
+  return { available, optedIn, setOptedIn }
+}
+
+export const useRequestRecords = () => useSyncExternalStore(subscribeRequestRecords, getRequestRecords)
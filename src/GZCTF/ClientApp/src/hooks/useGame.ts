@@ -1,6 +1,10 @@
+import { HubConnectionState } from '@microsoft/signalr'
 import dayjs from 'dayjs'
 import { TFunction } from 'i18next'
+import { useEffect } from 'react'
 import { GameStatus } from '@Components/GameCard'
+import { useHub, useHubEvent } from '@Components/HubProvider'
+import { applyScoreboardUpdate, ScoreboardUpdate } from '@Utils/Scoreboard'
 import { OnceSWRConfig } from '@Hooks/useConfig'
 import api, { ParticipationStatus } from '@Api'
 
@@ -59,6 +63,10 @@ export const useGame = (numId: number) => {
 export const useGameScoreboard = (numId: number) => {
   const { game } = useGame(numId)
   const { status } = getGameStatus(game)
+  const onGoing = status === GameStatus.OnGoing
+
+  const { state, reconnects } = useHub('user', { game: numId, enabled: onGoing })
+  const connected = state === HubConnectionState.Connected
 
   const {
     data: scoreboard,
@@ -66,9 +74,31 @@ export const useGameScoreboard = (numId: number) => {
     mutate,
   } = api.game.useGameScoreboard(numId, {
     ...OnceSWRConfig,
-    refreshInterval: status === GameStatus.OnGoing ? 30 * 1000 : 0,
+    // poll only while the hub is down
+    refreshInterval: onGoing && !connected ? 30 * 1000 : 0,
   })
 
+  const onUpdate = (update: ScoreboardUpdate) => {
+    // every subscriber applies the update, solves already on the board are skipped
+    let stale = false
+    mutate(
+      (board) => {
+        if (!board) return board
+        const next = applyScoreboardUpdate(board, update)
+        stale = !next
+        return next ?? board
+      },
+      { revalidate: () => stale }
+    )
+  }
+
+  useHubEvent('ReceivedScoreboardUpdate', onUpdate, { game: numId, enabled: onGoing })
+
+  // solves pushed while the connection was lost are missed
+  useEffect(() => {
+    if (reconnects > 0) mutate()
+  }, [reconnects])
+
   return { scoreboard, error, mutate }
 }
 
@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react'
+
+// stop paging backwards after this many pages, a longer gap should be reloaded by the user
+const MAX_BACKFILL_PAGES = 10
+
+interface HubBackfillOptions<T> {
+  /** `reconnects` from `useHub`, a change triggers the backfill */
+  reconnects: number
+  /** newest timestamp already shown on the page */
+  since?: number
+  pageSize: number
+  fetchPage: (skip: number, count: number) => Promise<T[]>
+  getTime: (item: T) => number | undefined
+  /** pages are not sorted by time, so every page is fetched instead of stopping at the first older item */
+  unordered?: boolean
+  onBackfill: (items: T[]) => void
+  onError?: (err: unknown) => void
+}
+
+/**
+ * Fetch the items pushed while the hub was disconnected, newest first
+ */
+export const fetchSince = async <T>(
+  since: number,
+  pageSize: number,
+  fetchPage: (skip: number, count: number) => Promise<T[]>,
+  getTime: (item: T) => number | undefined,
+  unordered = false
+) => {
+  const result: T[] = []
+
+  for (let page = 0; page < MAX_BACKFILL_PAGES; page++) {
+    const items = await fetchPage(page * pageSize, pageSize)
+    const fresh = items.filter((item) => (getTime(item) ?? 0) >= since)
+    result.push(...fresh)
+
+    if (items.length < pageSize || (!unordered && fresh.length < items.length)) break
+  }
+
+  return result
+}
+
+/**
+ * Merge items into a newest first list, dropping the ones already known
+ */
+export const mergeByKey = <T>(
+  current: T[],
+  incoming: T[],
+  keyOf: (item: T) => string,
+  getTime: (item: T) => number | undefined,
+  exclude: T[] = []
+) => {
+  const known = new Set([...current, ...exclude].map(keyOf))
+  const added = incoming.filter((item) => {
+    const key = keyOf(item)
+    if (known.has(key)) return false
+    known.add(key)
+    return true
+  })
+
+  if (added.length === 0) return current
+
+  return [...added, ...current].sort((a, b) => (getTime(b) ?? 0) - (getTime(a) ?? 0))
+}
+
+/**
+ * Backfill the gap after the hub reconnects
+ */
+export const useHubBackfill = <T>(options: HubBackfillOptions<T>) => {
+  const optionsRef = useRef(options)
+  const handled = useRef(options.reconnects)
+
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  useEffect(() => {
+    if (options.reconnects === handled.current) return
+    handled.current = options.reconnects
+
+    const { since, pageSize, fetchPage, getTime, unordered, onError } = optionsRef.current
+    if (since === undefined) return
+
+    fetchSince(since, pageSize, fetchPage, getTime, unordered)
+      .then((items) => optionsRef.current.onBackfill(items))
+      .catch((err) => (onError ? onError(err) : console.error(err)))
+  }, [options.reconnects])
+}
@@ -0,0 +1,33 @@
+import { HubConnectionState } from '@microsoft/signalr'
+import { useEffect, useRef } from 'react'
+
+// shorter drops are only shown by the status indicator
+const OUTAGE_NOTICE_DELAY = 5000
+
+/**
+ * Call `notify` on the first connection and after outages longer than a few seconds,
+ * automatic reconnects after a short drop stay silent
+ */
+export const useHubConnectedNotice = (state: HubConnectionState, notify: () => void) => {
+  const connectedOnce = useRef(false)
+  const downSince = useRef<number | null>(null)
+  const notifyRef = useRef(notify)
+
+  useEffect(() => {
+    notifyRef.current = notify
+  })
+
+  useEffect(() => {
+    if (state !== HubConnectionState.Connected) {
+      downSince.current ??= Date.now()
+      return
+    }
+
+    const outage = downSince.current !== null && Date.now() - downSince.current > OUTAGE_NOTICE_DELAY
+    downSince.current = null
+    if (connectedOnce.current && !outage) return
+
+    connectedOnce.current = true
+    notifyRef.current()
+  }, [state])
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react'
+
+const SEQUENCE_TIMEOUT = 1000
+
+/** return false from the handler to let the key through */
+export type KeySequence = [sequence: string, handler: (event: KeyboardEvent) => boolean | void]
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+/**
+ * Single keys or sequences separated by spaces, e.g. `j`, `?` or `g s`.
+ * Matched on `event.key`, so they follow the keyboard layout, and ignored while typing.
+ */
+export const useKeySequences = (sequences: KeySequence[], enabled = true) => {
+  const sequencesRef = useRef(sequences)
+
+  useEffect(() => {
+    sequencesRef.current = sequences
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let pressed: string[] = []
+    let lastTime = 0
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || event.repeat || isEditable(event.target)) return
+
+      if (event.timeStamp - lastTime > SEQUENCE_TIMEOUT) pressed = []
+      lastTime = event.timeStamp
+      pressed = [...pressed.slice(-2), event.key]
+
+      const match = sequencesRef.current.find(([sequence]) => {
+        const keys = sequence.split(' ')
+        return (
+          keys.length <= pressed.length && keys.every((key, i) => key === pressed[pressed.length - keys.length + i])
+        )
+      })
+      if (!match || match[1](event) === false) return
+
+      event.preventDefault()
+      pressed = []
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,94 @@
+import { useLocalStorage } from '@mantine/hooks'
+import { showNotification } from '@mantine/notifications'
+import { mdiClose } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import { useEffect, useSyncExternalStore } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  DefaultNoticeAlertSettings,
+  NoticeAlertSettings,
+  addUnreadNotice,
+  clearUnreadNotices,
+  getUnreadNotices,
+  isDesktopNotificationSupported,
+  isPageFocused,
+  playNoticeSound,
+  showDesktopNotification,
+  subscribeUnreadNotices,
+} from '@Utils/NoticeAlerts'
+import { GameNotice } from '@Api'
+
+export const useUnreadNotices = () => useSyncExternalStore(subscribeUnreadNotices, getUnreadNotices)
+
+/**
+ * Alerts for game notices outside of the page, every alert is opt-in
+ */
+export const useNoticeAlerts = (gameTitle?: string) => {
+  const { t } = useTranslation()
+  const [stored, setStored] = useLocalStorage<NoticeAlertSettings>({
+    key: 'notice-alerts',
+    defaultValue: DefaultNoticeAlertSettings,
+    getInitialValueInEffect: false,
+  })
+  const settings = { ...DefaultNoticeAlertSettings, ...stored }
+
+  const updateSettings = (patch: Partial<NoticeAlertSettings>) =>
+    setStored((current) => ({ ...DefaultNoticeAlertSettings, ...current, ...patch }))
+
+  const setDesktop = async (desktop: boolean) => {
+    if (!desktop || !isDesktopNotificationSupported()) {
+      updateSettings({ desktop: false })
+      return
+    }
+
+    const permission = await Notification.requestPermission()
+    if (permission !== 'granted') {
+      showNotification({
+        color: 'red',
+        message: t('game.notification.notice_alerts.denied'),
+        icon: <Icon path={mdiClose} size={1} />,
+      })
+    }
+    updateSettings({ desktop: permission === 'granted' })
+  }
+
+  useEffect(() => {
+    if (!settings.unreadBadge) {
+      clearUnreadNotices()
+      return
+    }
+
+    const onVisible = () => {
+      if (isPageFocused()) clearUnreadNotices()
+    }
+
+    window.addEventListener('focus', onVisible)
+    document.addEventListener('visibilitychange', onVisible)
+    return () => {
+      window.removeEventListener('focus', onVisible)
+      document.removeEventListener('visibilitychange', onVisible)
+      clearUnreadNotices()
+    }
+  }, [settings.unreadBadge])
+
+  /**
+   * Raise the enabled alerts for a notice received from the hub, with the text shown in the page
+   */
+  const alertNotice = (notice: GameNotice, message: string) => {
+    if (!settings.types.includes(notice.type)) return
+
+    const focused = isPageFocused()
+    if (settings.unreadBadge && !focused) addUnreadNotice()
+    if (settings.muteOnFocus && focused) return
+
+    try {
+      if (settings.sound) playNoticeSound(notice.type)
+      if (settings.desktop) showDesktopNotification(gameTitle || 'GZ::CTF', message, `notice-${notice.id}`)
+    } catch (e) {
+      // e.g. Chrome for Android grants the permission but has no `Notification` constructor
+      console.warn('[notice] alert failed', e)
+    }
+  }
+
+  return { settings, updateSettings, setDesktop, alertNotice }
+}
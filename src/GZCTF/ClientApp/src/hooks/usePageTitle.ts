@@ -1,10 +1,14 @@
 import { useDocumentTitle } from '@mantine/hooks'
 import { useConfig } from '@Hooks/useConfig'
+import { useUnreadNotices } from '@Hooks/useNoticeAlerts'
 
 export const usePageTitle = (title?: string) => {
   const { config, error } = useConfig()
 
+  const unread = useUnreadNotices()
+
   const platform = error ? 'GZ::CTF' : `${config?.title ?? 'GZ'}::CTF`
+  const pageTitle = typeof title === 'string' && title.trim().length > 0 ? `${title} - ${platform}` : platform
 
-  useDocumentTitle(typeof title === 'string' && title.trim().length > 0 ? `${title} - ${platform}` : platform)
+  useDocumentTitle(unread > 0 ? `(${unread}) ${pageTitle}` : pageTitle)
 }
@@ -0,0 +1,69 @@
+import { isCancel } from 'axios'
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react'
+import { ArrayResponse, useArrayResponse } from '@Hooks/useArrayResponse'
+import { RequestParams } from '@Api'
+
+interface PagedQueryOptions<T> {
+  /** set to false to skip fetching */
+  enabled?: boolean
+  onSuccess?: (data: T[]) => void
+  onError?: (err: unknown) => void
+}
+
+/**
+ * Fetch a page whenever `deps` change, the previous request is aborted so a
+ * late response can never overwrite a newer one
+ *
+ * @param fetcher pass `params` to the `api.*` call to make it abortable
+ */
+export function usePagedQuery<T>(
+  fetcher: (params: RequestParams) => Promise<{ data: ArrayResponse<T> | T[] }>,
+  deps: DependencyList,
+  options: PagedQueryOptions<T> = {}
+) {
+  const { enabled = true } = options
+  const response = useArrayResponse<T>()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<unknown>()
+  const [version, setVersion] = useState(0)
+
+  const fetcherRef = useRef(fetcher)
+  const optionsRef = useRef(options)
+
+  useEffect(() => {
+    fetcherRef.current = fetcher
+    optionsRef.current = options
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    setLoading(true)
+    setError(undefined)
+
+    fetcherRef
+      .current({ signal: controller.signal })
+      .then((res) => {
+        if (controller.signal.aborted) return
+        const data = Array.isArray(res.data) ? { data: res.data, length: res.data.length } : res.data
+        response.setData(data)
+        optionsRef.current.onSuccess?.(data.data)
+      })
+      .catch((err) => {
+        if (controller.signal.aborted || isCancel(err)) return
+        setError(err)
+        optionsRef.current.onError?.(err)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [...deps, version, enabled])
+
+  /** fetch the current page again */
+  const refresh = useCallback(() => setVersion((v) => v + 1), [])
+
+  return { ...response, loading, error, refresh }
+}
@@ -0,0 +1,140 @@
+import { useReducedMotion } from '@mantine/hooks'
+import { RefObject, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { ScoreboardItem } from '@Api'
+
+// how long a movement stays visible on the board
+export const RANK_CHANGE_WINDOW = 15 * 1000
+
+const FLIP_DURATION = 600
+
+export interface ScoreboardItemChange {
+  /** positive if the team moved up */
+  rank: number
+  /** positive if the team moved up in its division */
+  divisionRank: number
+  /** ids of the challenges solved since the previous snapshot */
+  solved: number[]
+  expires: number
+}
+
+interface Snapshot {
+  game: number
+  ranks: Map<number, { rank: number; divisionRank: number; solved: Set<number> }>
+}
+
+const takeSnapshot = (game: number, items: ScoreboardItem[]): Snapshot => ({
+  game,
+  ranks: new Map(
+    items.map((item) => [
+      item.id!,
+      {
+        rank: item.rank ?? 0,
+        divisionRank: item.divisionRank ?? 0,
+        solved: new Set(item.solvedChallenges?.map((c) => c.id!)),
+      },
+    ])
+  ),
+})
+
+/**
+ * Compare each scoreboard with the previous snapshot of the game,
+ * changes of a team add up until they expire after `span` ms
+ */
+export const useScoreboardChanges = (game: number, items?: ScoreboardItem[] | null, span = RANK_CHANGE_WINDOW) => {
+  const snapshot = useRef<Snapshot | null>(null)
+  const [changes, setChanges] = useState<Map<number, ScoreboardItemChange>>(() => new Map())
+
+  useEffect(() => {
+    if (!items) return
+
+    const prev = snapshot.current
+    snapshot.current = takeSnapshot(game, items)
+
+    // nothing to compare with on the first load of a game
+    if (!prev || prev.game !== game) {
+      setChanges(new Map())
+      return
+    }
+
+    const now = Date.now()
+    const found = new Map<number, ScoreboardItemChange>()
+
+    items.forEach((item) => {
+      const before = prev.ranks.get(item.id!)
+      if (!before) return
+
+      const rank = before.rank - (item.rank ?? 0)
+      const divisionRank = item.divisionRank && before.divisionRank ? before.divisionRank - item.divisionRank : 0
+      const solved = item.solvedChallenges?.filter((c) => !before.solved.has(c.id!)).map((c) => c.id!) ?? []
+
+      if (rank || divisionRank || solved.length) found.set(item.id!, { rank, divisionRank, solved, expires: 0 })
+    })
+
+    if (found.size === 0) return
+
+    setChanges((current) => {
+      const next = new Map([...current].filter(([, change]) => change.expires > now))
+      found.forEach((change, id) => {
+        const last = next.get(id)
+        next.set(id, {
+          rank: change.rank + (last?.rank ?? 0),
+          divisionRank: change.divisionRank + (last?.divisionRank ?? 0),
+          // keep earlier solves, the highlight is restarted only for the new ones
+          solved: change.solved.length ? change.solved : (last?.solved ?? []),
+          expires: now + span,
+        })
+      })
+      return next
+    })
+  }, [game, items, span])
+
+  useEffect(() => {
+    if (changes.size === 0) return
+
+    const next = Math.min(...[...changes.values()].map((change) => change.expires))
+    const timer = setTimeout(
+      () => setChanges((current) => new Map([...current].filter(([, change]) => change.expires > Date.now()))),
+      Math.max(next - Date.now(), 0) + 50
+    )
+
+    return () => clearTimeout(timer)
+  }, [changes])
+
+  return changes
+}
+
+/**
+ * Animate the rows marked with `data-flip-key` from their previous position when `trigger` changes,
+ * nothing is animated if the user prefers reduced motion
+ */
+export const useFlipRows = (container: RefObject<HTMLElement | null>, trigger: unknown) => {
+  const reduceMotion = useReducedMotion()
+  const positions = useRef(new Map<string, number>())
+  const lastTrigger = useRef(trigger)
+
+  useLayoutEffect(() => {
+    const root = container.current
+    if (!root) return
+
+    const top = root.getBoundingClientRect().top
+    const rows = [...root.querySelectorAll<HTMLElement>('[data-flip-key]')]
+    const current = new Map(rows.map((row) => [row.dataset.flipKey!, row.getBoundingClientRect().top - top]))
+
+    // other renders only move the rows because of filters, paging or resizing
+    if (trigger !== lastTrigger.current && !reduceMotion) {
+      rows.forEach((row) => {
+        const before = positions.current.get(row.dataset.flipKey!)
+        const delta = before === undefined ? 0 : before - current.get(row.dataset.flipKey!)!
+        if (!delta) return
+
+        row.animate([{ transform: `translateY(${delta}px)` }, { transform: 'translateY(0)' }], {
+          duration: FLIP_DURATION,
+          easing: 'cubic-bezier(0.2, 0, 0, 1)',
+        })
+      })
+    }
+
+    lastTrigger.current = trigger
+    positions.current = current
+  })
+}
@@ -0,0 +1,92 @@
+import { showNotification } from '@mantine/notifications'
+import { mdiCheck, mdiClose, mdiLoading } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  discardSubmission,
+  enqueueSubmission,
+  getOutboxEntries,
+  setOutboxUser,
+  setupOutbox,
+  subscribeOutbox,
+  subscribeSettled,
+} from '@Utils/Outbox'
+import { showErrorMsg } from '@Utils/Shared'
+import { useUser } from '@Hooks/useUser'
+import { AnswerResult } from '@Api'
+
+/**
+ * Submissions queued while offline, optionally only the ones of a challenge
+ */
+export const useSubmissionOutbox = (gameId: number, challengeId?: number) => {
+  const { user } = useUser()
+  const userId = user?.userId ?? null
+
+  useEffect(() => setupOutbox(), [])
+  useEffect(() => setOutboxUser(userId), [userId])
+
+  const entries = useSyncExternalStore(subscribeOutbox, getOutboxEntries)
+  const pending = useMemo(
+    () =>
+      entries.filter(
+        (e) =>
+          e.userId === userId && e.gameId === gameId && (challengeId === undefined || e.challengeId === challengeId)
+      ),
+    [entries, userId, gameId, challengeId]
+  )
+
+  return { pending, enqueue: enqueueSubmission, discard: discardSubmission }
+}
+
+/**
+ * Notify the result of queued submissions of the game, once they are judged
+ */
+export const useOutboxNotifications = (gameId: number, onAccepted?: () => void) => {
+  const { t } = useTranslation()
+  const onAcceptedRef = useRef(onAccepted)
+
+  useEffect(() => {
+    onAcceptedRef.current = onAccepted
+  })
+
+  useEffect(
+    () =>
+      subscribeSettled(({ submission, result, error }) => {
+        if (submission.gameId !== gameId) return
+
+        const title = submission.challengeTitle
+
+        if (error !== undefined) {
+          showErrorMsg(error, t)
+        } else if (result === AnswerResult.Accepted) {
+          showNotification({
+            color: 'teal',
+            title: t('challenge.notification.flag.accepted.title'),
+            message: t('challenge.notification.flag.queued.accepted', { title }),
+            icon: <Icon path={mdiCheck} size={1} />,
+            autoClose: 8000,
+          })
+          onAcceptedRef.current?.()
+        } else if (result === AnswerResult.WrongAnswer) {
+          showNotification({
+            color: 'red',
+            title: t('challenge.notification.flag.wrong'),
+            message: t('challenge.notification.flag.queued.wrong', { title }),
+            icon: <Icon path={mdiClose} size={1} />,
+            autoClose: 8000,
+          })
+        } else {
+          showNotification({
+            color: 'yellow',
+            title: t('challenge.notification.flag.unknown.title'),
+            message: t('challenge.notification.flag.unknown.message', { id: submission.submitId }),
+            icon: <Icon path={mdiLoading} size={1} />,
+            autoClose: false,
+            withCloseButton: true,
+          })
+        }
+      }),
+    [gameId, t]
+  )
+}
@@ -4,6 +4,8 @@ import { Icon } from '@mdi/react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router'
 import { useSWRConfig } from 'swr'
+import { clearNotes } from '@Utils/Notes'
+import { clearOutbox } from '@Utils/Outbox'
 import api from '@Api'
 
 export const useUser = () => {
@@ -21,6 +23,7 @@ export const useUser = () => {
     onErrorRetry: async (err, _key, _config, revalidate, { retryCount }) => {
       if (err?.status === 403) {
         await api.account.accountLogOut()
+        await clearUserData()
         navigate('/')
         showNotification({
           color: 'red',
@@ -61,6 +64,11 @@ export const useTeams = () => {
   return { teams, error, mutate }
 }
 
+/**
+ * Queued flags and notes are kept per browser, the next account must not see or send them
+ */
+const clearUserData = () => Promise.all([clearOutbox(), clearNotes()])
+
 export const useLogOut = () => {
   const navigate = useNavigate()
   const { mutate } = useSWRConfig()
@@ -70,6 +78,7 @@ export const useLogOut = () => {
   return async () => {
     try {
       await api.account.accountLogOut()
+      await clearUserData()
       navigate('/')
       mutate((key) => typeof key === 'string' && key.includes('game/'), undefined, {
         revalidate: false,
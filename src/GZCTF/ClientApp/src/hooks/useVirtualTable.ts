@@ -0,0 +1,102 @@
+import { RefObject, useEffect, useLayoutEffect, useState } from 'react'
+
+const OVERSCAN_ROWS = 8
+const OVERSCAN_COLUMNS = 4
+
+export interface VirtualTableOptions {
+  /** the element clipping the table horizontally */
+  viewport: RefObject<HTMLElement | null>
+  /** the element the rows start in */
+  body: RefObject<HTMLElement | null>
+  rowCount: number
+  rowHeight: number
+  /** rows rendered before the virtual ones, e.g. a pinned row */
+  rowOffset?: number
+  columnCount: number
+  columnWidth: number
+  /** width of the sticky columns before the virtual ones */
+  columnOffset: number
+}
+
+export interface VirtualRange {
+  rowStart: number
+  rowEnd: number
+  columnStart: number
+  columnEnd: number
+}
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+
+/**
+ * Rows and columns of a table visible in the window, with fixed row height and column width.
+ * Rows scroll with the page, columns scroll in the viewport.
+ */
+export const useVirtualTable = ({
+  viewport,
+  body,
+  rowCount,
+  rowHeight,
+  rowOffset = 0,
+  columnCount,
+  columnWidth,
+  columnOffset,
+}: VirtualTableOptions): VirtualRange => {
+  const [range, setRange] = useState<VirtualRange>({
+    rowStart: 0,
+    rowEnd: Math.min(rowCount, OVERSCAN_ROWS * 4),
+    columnStart: 0,
+    columnEnd: Math.min(columnCount, OVERSCAN_COLUMNS * 4),
+  })
+
+  const measure = () => {
+    const view = viewport.current
+    const rows = body.current
+    if (!view || !rows) return
+
+    const viewRect = view.getBoundingClientRect()
+    const bodyRect = rows.getBoundingClientRect()
+
+    const top = -(bodyRect.top + rowOffset * rowHeight)
+    const rowStart = clamp(Math.floor(top / rowHeight) - OVERSCAN_ROWS, rowCount)
+    const rowEnd = clamp(Math.ceil((top + window.innerHeight) / rowHeight) + OVERSCAN_ROWS, rowCount)
+
+    // the table is scrolled left by this much, the sticky columns cover the start of the view
+    const left = viewRect.left - bodyRect.left
+    const columnStart = clamp(Math.floor(left / columnWidth) - OVERSCAN_COLUMNS, columnCount)
+    const columnEnd = clamp(
+      Math.ceil((left + viewRect.width - columnOffset) / columnWidth) + OVERSCAN_COLUMNS,
+      columnCount
+    )
+
+    setRange((current) =>
+      current.rowStart === rowStart &&
+      current.rowEnd === rowEnd &&
+      current.columnStart === columnStart &&
+      current.columnEnd === columnEnd
+        ? current
+        : { rowStart, rowEnd, columnStart, columnEnd }
+    )
+  }
+
+  useLayoutEffect(measure, [rowCount, columnCount, rowHeight, columnWidth, rowOffset])
+
+  useEffect(() => {
+    let frame = 0
+    const onChange = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(measure)
+    }
+
+    // captured, so scrolling of the table itself is caught as well
+    document.addEventListener('scroll', onChange, { capture: true, passive: true })
+    window.addEventListener('resize', onChange)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      document.removeEventListener('scroll', onChange, { capture: true })
+      window.removeEventListener('resize', onChange)
+    }
+  }, [rowCount, columnCount, rowHeight, columnWidth, rowOffset])
+
+  return range
+}
@@ -6,7 +6,10 @@ import ReactDOM from 'react-dom/client'
 import { initReactI18next } from 'react-i18next'
 import { BrowserRouter } from 'react-router'
 import manifest from 'virtual:i18n-manifest'
+import { setupDiagnosticsInterceptor } from '@Utils/Diagnostics'
 import { convertLanguage } from '@Utils/I18n'
+import { setupRateLimitInterceptor } from '@Utils/RateLimit'
+import api from '@Api'
 
 i18n
   .use(LanguageDetector)
@@ -30,10 +33,25 @@ i18n
     },
   })
 
-const app = ReactDOM.createRoot(document.getElementById('root')!)
+// request interceptors run in reverse order, so the latency excludes the rate limit wait
+setupDiagnosticsInterceptor(api.instance)
+setupRateLimitInterceptor(api.instance)
 
-app.render(
-  <BrowserRouter>
-    <App />
-  </BrowserRouter>
-)
+const render = () => {
+  const app = ReactDOM.createRoot(document.getElementById('root')!)
+
+  app.render(
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  )
+}
+
+if (import.meta.env.VITE_MOCK) {
+  // loaded on demand so the fixtures never reach a normal build
+  import('@Utils/mock/Server')
+    .then(({ setupMockBackend }) => setupMockBackend(api.instance, import.meta.env.VITE_MOCK!))
+    .finally(render)
+} else {
+  render()
+}
@@ -11,12 +11,14 @@ import {
   Paper,
   SimpleGrid,
   Stack,
+  Switch,
   Text,
   Textarea,
   TextInput,
   Title,
 } from '@mantine/core'
 import { Dropzone } from '@mantine/dropzone'
+import { useForm } from '@mantine/form'
 import { notifications, showNotification, updateNotification } from '@mantine/notifications'
 import { mdiCheck, mdiClose } from '@mdi/js'
 import { Icon } from '@mdi/react'
@@ -24,9 +26,11 @@ import { FC, useEffect, useState } from 'react'
 import { Trans, useTranslation } from 'react-i18next'
 import { PasswordChangeModal } from '@Components/PasswordChangeModal'
 import { WithNavBar } from '@Components/WithNavbar'
+import { setFormErrors } from '@Utils/ApiHelper'
 import { showErrorMsg, tryGetErrorMsg } from '@Utils/Shared'
 import { IMAGE_MIME_TYPES } from '@Utils/Shared'
 import { useIsMobile } from '@Utils/ThemeOverride'
+import { useDiagnostics } from '@Hooks/useDiagnostics'
 import { usePageTitle } from '@Hooks/usePageTitle'
 import { useUser } from '@Hooks/useUser'
 import api, { ProfileUpdateModel } from '@Api'
@@ -36,13 +40,16 @@ const Profile: FC = () => {
   const [dropzoneOpened, setDropzoneOpened] = useState(false)
   const { user, mutate } = useUser()
 
-  const [profile, setProfile] = useState<ProfileUpdateModel>({
-    userName: user?.userName,
-    bio: user?.bio,
-    stdNumber: user?.stdNumber,
-    phone: user?.phone,
-    realName: user?.realName,
+  const form = useForm<ProfileUpdateModel>({
+    initialValues: {
+      userName: user?.userName,
+      bio: user?.bio,
+      stdNumber: user?.stdNumber,
+      phone: user?.phone,
+      realName: user?.realName,
+    },
   })
+  const profile = form.values
   const [avatarFile, setAvatarFile] = useState<File | null>(null)
 
   const [disabled, setDisabled] = useState(false)
@@ -53,19 +60,21 @@ const Profile: FC = () => {
   const [email, setEmail] = useState('')
 
   const isMobile = useIsMobile()
+  const { optedIn: diagnostics, setOptedIn: setDiagnostics } = useDiagnostics()
 
   const { t } = useTranslation()
 
   usePageTitle(t('account.title.profile'))
 
   useEffect(() => {
-    setProfile({
+    form.setValues({
       userName: user?.userName,
       bio: user?.bio,
       stdNumber: user?.stdNumber,
       phone: user?.phone,
       realName: user?.realName,
     })
+    form.clearErrors()
   }, [user])
 
   const onChangeAvatar = async () => {
@@ -121,7 +130,9 @@ const Profile: FC = () => {
       })
       mutate({ ...user })
     } catch (e) {
-      showErrorMsg(e, t)
+      if (!setFormErrors(form, e)) showErrorMsg(e, t)
+    } finally {
+      setDisabled(false)
     }
   }
 
@@ -159,7 +170,8 @@ const Profile: FC = () => {
             w="100%"
             value={profile.userName ?? 'ctfer'}
             disabled={disabled}
-            onChange={(event) => setProfile({ ...profile, userName: event.target.value })}
+            error={form.errors.userName}
+            onChange={(event) => form.setFieldValue('userName', event.target.value)}
           />
           <Center>
             <Avatar alt="avatar" radius={40} size={80} src={user?.avatar} onClick={() => setDropzoneOpened(true)}>
@@ -182,7 +194,8 @@ const Profile: FC = () => {
             w="100%"
             value={profile.phone ?? ''}
             disabled={disabled}
-            onChange={(event) => setProfile({ ...profile, phone: event.target.value })}
+            error={form.errors.phone}
+            onChange={(event) => form.setFieldValue('phone', event.target.value)}
           />
           <TextInput
             label={t('account.label.student_id')}
@@ -190,7 +203,8 @@ const Profile: FC = () => {
             w="100%"
             value={profile.stdNumber ?? ''}
             disabled={disabled}
-            onChange={(event) => setProfile({ ...profile, stdNumber: event.target.value })}
+            error={form.errors.stdNumber}
+            onChange={(event) => form.setFieldValue('stdNumber', event.target.value)}
           />
           <TextInput
             label={t('account.label.real_name')}
@@ -198,7 +212,8 @@ const Profile: FC = () => {
             w="100%"
             value={profile.realName ?? ''}
             disabled={disabled}
-            onChange={(event) => setProfile({ ...profile, realName: event.target.value })}
+            error={form.errors.realName}
+            onChange={(event) => form.setFieldValue('realName', event.target.value)}
           />
         </SimpleGrid>
         <Textarea
@@ -206,10 +221,17 @@ const Profile: FC = () => {
           value={profile.bio ?? t('account.placeholder.bio')}
           w="100%"
           disabled={disabled}
+          error={form.errors.bio}
           autosize
           minRows={2}
           maxRows={4}
-          onChange={(event) => setProfile({ ...profile, bio: event.target.value })}
+          onChange={(event) => form.setFieldValue('bio', event.target.value)}
+        />
+        <Switch
+          label={t('account.label.diagnostics')}
+          description={t('account.content.profile.diagnostics')}
+          checked={diagnostics}
+          onChange={(event) => setDiagnostics(event.currentTarget.checked)}
         />
         <Box m="auto" w="100%">
           <Grid grow>
@@ -1,5 +1,5 @@
 import { Anchor, Button, PasswordInput, TextInput } from '@mantine/core'
-import { useInputState } from '@mantine/hooks'
+import { useForm } from '@mantine/form'
 import { showNotification, updateNotification } from '@mantine/notifications'
 import { mdiCheck, mdiClose } from '@mdi/js'
 import { Icon } from '@mdi/react'
@@ -9,6 +9,7 @@ import { Link, useNavigate } from 'react-router'
 import { AccountView } from '@Components/AccountView'
 import { Captcha, useCaptchaRef } from '@Components/Captcha'
 import { StrengthPasswordInput } from '@Components/StrengthPasswordInput'
+import { setFormErrors } from '@Utils/ApiHelper'
 import { encryptApiData } from '@Utils/Crypto'
 import { tryGetClientError } from '@Utils/Shared'
 import { useConfig } from '@Hooks/useConfig'
@@ -17,10 +18,6 @@ import api, { RegisterStatus } from '@Api'
 import misc from '@Styles/Misc.module.css'
 
 const Register: FC = () => {
-  const [pwd, setPwd] = useInputState('')
-  const [retypedPwd, setRetypedPwd] = useInputState('')
-  const [uname, setUname] = useInputState('')
-  const [email, setEmail] = useInputState('')
   const [disabled, setDisabled] = useState(false)
   const { config } = useConfig()
 
@@ -29,6 +26,18 @@ const Register: FC = () => {
 
   const { t } = useTranslation()
 
+  const form = useForm({
+    initialValues: {
+      email: '',
+      userName: '',
+      password: '',
+      retypedPassword: '',
+    },
+    validate: {
+      retypedPassword: (value, values) => (value !== values.password ? t('account.password.not_match') : null),
+    },
+  })
+
   const RegisterStatusMap = new Map([
     [
       RegisterStatus.LoggedIn,
@@ -55,19 +64,15 @@ const Register: FC = () => {
 
   usePageTitle(t('account.title.register'))
 
-  const onRegister = async (event: React.FormEvent) => {
-    event.preventDefault()
-
-    if (pwd !== retypedPwd) {
-      showNotification({
-        color: 'red',
-        title: t('common.error.check_input'),
-        message: t('account.password.not_match'),
-        icon: <Icon path={mdiClose} size={1} />,
-      })
-      return
-    }
+  const onInvalid = () =>
+    showNotification({
+      color: 'red',
+      title: t('common.error.check_input'),
+      message: t('account.password.not_match'),
+      icon: <Icon path={mdiClose} size={1} />,
+    })
 
+  const onRegister = async (values: typeof form.values) => {
     const { valid, token } = await getToken()
 
     if (!valid) {
@@ -93,9 +98,9 @@ const Register: FC = () => {
 
     try {
       const res = await api.account.accountRegister({
-        userName: uname,
-        password: await encryptApiData(t, pwd, config.apiPublicKey),
-        email: email,
+        userName: values.userName,
+        password: await encryptApiData(t, values.password, config.apiPublicKey),
+        email: values.email,
         challenge: token,
       })
       const data = RegisterStatusMap.get(res.data.data)
@@ -115,6 +120,7 @@ const Register: FC = () => {
         else navigate('/account/login')
       }
     } catch (err: any) {
+      setFormErrors(form, err)
       const { title, message } = tryGetClientError(err, t)
 
       updateNotification({
@@ -133,16 +139,15 @@ const Register: FC = () => {
   }
 
   return (
-    <AccountView onSubmit={onRegister}>
+    <AccountView onSubmit={form.onSubmit(onRegister, onInvalid)}>
       <TextInput
         required
         label={t('account.label.email')}
         type="email"
         placeholder="ctf@example.com"
         w="100%"
-        value={email}
         disabled={disabled}
-        onChange={(event) => setEmail(event.currentTarget.value)}
+        {...form.getInputProps('email')}
       />
       <TextInput
         required
@@ -150,25 +155,28 @@ const Register: FC = () => {
         type="text"
         placeholder="ctfer"
         w="100%"
-        value={uname}
         disabled={disabled}
-        onChange={(event) => setUname(event.currentTarget.value)}
+        {...form.getInputProps('userName')}
+      />
+      <StrengthPasswordInput
+        value={form.values.password}
+        onChange={(event) => form.setFieldValue('password', event.currentTarget.value)}
+        error={form.errors.password}
+        disabled={disabled}
       />
-      <StrengthPasswordInput value={pwd} onChange={(event) => setPwd(event.currentTarget.value)} disabled={disabled} />
       <PasswordInput
         required
         label={t('account.label.password_retype')}
-        value={retypedPwd}
-        onChange={(event) => setRetypedPwd(event.currentTarget.value)}
         disabled={disabled}
         w="100%"
-        error={pwd !== retypedPwd}
+        {...form.getInputProps('retypedPassword')}
+        error={form.errors.retypedPassword || form.values.password !== form.values.retypedPassword}
       />
       <Captcha action="register" ref={captchaRef} />
       <Anchor fz="xs" className={misc.alignSelfEnd} component={Link} to="/account/login">
         {t('account.anchor.login')}
       </Anchor>
-      <Button type="submit" fullWidth onClick={onRegister} disabled={disabled}>
+      <Button type="submit" fullWidth disabled={disabled}>
         {t('account.button.register')}
       </Button>
     </AccountView>
@@ -13,16 +13,20 @@ import {
 import { showNotification } from '@mantine/notifications'
 import { mdiArrowLeftBold, mdiArrowRightBold, mdiCheck, mdiClose } from '@mdi/js'
 import { Icon } from '@mdi/react'
-import * as signalR from '@microsoft/signalr'
 import cx from 'clsx'
 import dayjs from 'dayjs'
 import React, { FC, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { useHubEvent } from '@Components/HubProvider'
+import { HubStatusIndicator } from '@Components/HubStatusIndicator'
 import { AdminPage } from '@Components/admin/AdminPage'
 import { handleAxiosError } from '@Utils/ApiHelper'
 import { useLanguage } from '@Utils/I18n'
 import { TaskStatusColorMap } from '@Utils/Shared'
 import { useDisplayInputStyles } from '@Utils/ThemeOverride'
+import { mergeByKey, useHubBackfill } from '@Hooks/useHubBackfill'
+import { useHubConnectedNotice } from '@Hooks/useHubConnectedNotice'
+import { usePagedQuery } from '@Hooks/usePagedQuery'
 import api, { LogMessageModel, TaskStatus } from '@Api'
 import tableClasses from '@Styles/Table.module.css'
 
@@ -35,6 +39,8 @@ enum LogLevel {
   All = 'All',
 }
 
+const logKey = (item: LogMessageModel) => [item.time, item.level, item.name, item.ip, item.msg].join('|')
+
 const Logs: FC = () => {
   const [level, setLevel] = useState(LogLevel.Info)
   const [activePage, setPage] = useState(1)
@@ -42,7 +48,7 @@ const Logs: FC = () => {
 
   const [, update] = useState(new Date())
   const newLogs = useRef<LogMessageModel[]>([])
-  const [logs, setLogs] = useState<LogMessageModel[]>()
+  const lastSeen = useRef<number>(undefined)
 
   const { t } = useTranslation()
   const { locale } = useLanguage()
@@ -53,27 +59,32 @@ const Logs: FC = () => {
     viewport.current?.scrollTo({ top: 0, behavior: 'smooth' })
   }, [activePage, level, viewport])
 
-  useEffect(() => {
-    const fetchLogs = async () => {
-      try {
-        const res = await api.admin.adminLogs({
+  const { data: logs } = usePagedQuery<LogMessageModel>(
+    (params) =>
+      api.admin.adminLogs(
+        {
           level,
           count: ITEM_COUNT_PER_PAGE,
           skip: (activePage - 1) * ITEM_COUNT_PER_PAGE,
-        })
-        setLogs(res.data)
-      } catch (err) {
+        },
+        params
+      ),
+    [activePage, level],
+    {
+      onSuccess: (data) => {
+        if (activePage === 1) lastSeen.current = Math.max(lastSeen.current ?? 0, data.at(0)?.time ?? 0)
+      },
+      onError: async (err) =>
         showNotification({
           color: 'red',
           title: t('admin.notification.logs.fetch_failed'),
           message: await handleAxiosError(err),
           icon: <Icon path={mdiClose} size={1} />,
-        })
-      }
+        }),
     }
+  )
 
-    fetchLogs()
-
+  useEffect(() => {
     if (activePage === 1) {
       newLogs.current = []
     }
@@ -83,43 +94,39 @@ const Logs: FC = () => {
     setPage(1)
   }, [level])
 
-  useEffect(() => {
-    const connection = new signalR.HubConnectionBuilder()
-      .withUrl('/hub/admin')
-      .withHubProtocol(new signalR.JsonHubProtocol())
-      .withAutomaticReconnect()
-      .configureLogging(signalR.LogLevel.None)
-      .build()
-
-    connection.serverTimeoutInMilliseconds = 60 * 1000 * 60 * 24
-
-    connection.on('ReceivedLog', (message: LogMessageModel) => {
-      console.log(message)
-      newLogs.current = [message, ...newLogs.current]
-      update(new Date(message.time!))
+  const { state: hubState, reconnects } = useHubEvent('ReceivedLog', (message) => {
+    newLogs.current = [message, ...newLogs.current]
+    lastSeen.current = Math.max(lastSeen.current ?? 0, message.time ?? 0)
+    update(new Date(message.time!))
+  })
+
+  useHubBackfill({
+    reconnects,
+    since: lastSeen.current,
+    pageSize: ITEM_COUNT_PER_PAGE,
+    fetchPage: async (skip, count) => (await api.admin.adminLogs({ level, count, skip })).data,
+    getTime: (item) => item.time,
+    onBackfill: (items) => {
+      newLogs.current = mergeByKey(newLogs.current, items, logKey, (item) => item.time, activePage === 1 ? logs : [])
+      lastSeen.current = Math.max(lastSeen.current ?? 0, newLogs.current.at(0)?.time ?? 0)
+      update(new Date())
+    },
+    onError: async (err) =>
+      showNotification({
+        color: 'red',
+        title: t('admin.notification.logs.fetch_failed'),
+        message: await handleAxiosError(err),
+        icon: <Icon path={mdiClose} size={1} />,
+      }),
+  })
+
+  useHubConnectedNotice(hubState, () =>
+    showNotification({
+      color: 'teal',
+      message: t('admin.notification.logs.connected'),
+      icon: <Icon path={mdiCheck} size={1} />,
     })
-
-    const startConnection = async () => {
-      try {
-        await connection.start()
-        showNotification({
-          color: 'teal',
-          message: t('admin.notification.logs.connected'),
-          icon: <Icon path={mdiCheck} size={1} />,
-        })
-      } catch (err) {
-        console.error(err)
-      }
-    }
-
-    startConnection()
-
-    return () => {
-      connection.stop().catch((err) => {
-        console.error(err)
-      })
-    }
-  }, [])
+  )
 
   const rows = [...(activePage === 1 ? newLogs.current : []), ...(logs ?? [])]
     .filter((item) => level === 'All' || item.level === level)
@@ -174,6 +181,7 @@ const Logs: FC = () => {
             }))}
           />
           <Group justify="right">
+            <HubStatusIndicator state={hubState} />
             <ActionIcon size="lg" disabled={activePage <= 1} onClick={() => setPage(activePage - 1)}>
               <Icon path={mdiArrowLeftBold} size={1} />
             </ActionIcon>
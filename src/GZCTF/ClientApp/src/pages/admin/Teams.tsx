@@ -33,7 +33,7 @@ import { ActionIconWithConfirm } from '@Components/ActionIconWithConfirm'
 import { AdminPage } from '@Components/admin/AdminPage'
 import { TeamEditModal } from '@Components/admin/TeamEditModal'
 import { showErrorMsg } from '@Utils/Shared'
-import { useArrayResponse } from '@Hooks/useArrayResponse'
+import { usePagedQuery } from '@Hooks/usePagedQuery'
 import api, { TeamInfoModel, TeamWithDetailedUserInfo } from '@Api'
 import misc from '@Styles/Misc.module.css'
 import tableClasses from '@Styles/Table.module.css'
@@ -43,10 +43,8 @@ const ITEM_COUNT_PER_PAGE = 30
 
 const Teams: FC = () => {
   const [page, setPage] = useState(1)
-  const [update, setUpdate] = useState(new Date())
-  const { data: teams, total, setData: setTeams, updateData: updateTeams } = useArrayResponse<TeamInfoModel>()
   const [hint, setHint] = useInputState('')
-  const [searching, setSearching] = useState(false)
+  const [query, setQuery] = useState('')
   const [disabled, setDisabled] = useState(false)
   const [current, setCurrent] = useState(0)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
@@ -59,46 +57,33 @@ const Teams: FC = () => {
     viewport.current?.scrollTo({ top: 0, behavior: 'smooth' })
   }, [page, viewport])
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const res = await api.admin.adminTeams({
-          count: ITEM_COUNT_PER_PAGE,
-          skip: (page - 1) * ITEM_COUNT_PER_PAGE,
-        })
-
-        setTeams(res.data)
-        setCurrent((page - 1) * ITEM_COUNT_PER_PAGE + res.data.length)
-      } catch (e) {
-        showErrorMsg(e, t)
-      }
+  const {
+    data: teams,
+    total,
+    updateData: updateTeams,
+    loading,
+    refresh,
+  } = usePagedQuery<TeamInfoModel>(
+    (params) =>
+      query
+        ? api.admin.adminSearchTeams({ hint: query }, params)
+        : api.admin.adminTeams(
+            {
+              count: ITEM_COUNT_PER_PAGE,
+              skip: (page - 1) * ITEM_COUNT_PER_PAGE,
+            },
+            params
+          ),
+    [page, query],
+    {
+      onSuccess: (data) => setCurrent(query ? data.length : (page - 1) * ITEM_COUNT_PER_PAGE + data.length),
+      onError: (err) => showErrorMsg(err, t),
     }
+  )
 
-    fetchData()
-  }, [page, update])
-
-  const onSearch = async () => {
-    try {
-      if (!hint) {
-        const res = await api.admin.adminTeams({
-          count: ITEM_COUNT_PER_PAGE,
-          skip: (page - 1) * ITEM_COUNT_PER_PAGE,
-        })
-
-        setTeams(res.data)
-        setCurrent((page - 1) * ITEM_COUNT_PER_PAGE + res.data.length)
-      } else {
-        setSearching(true)
-
-        const res = await api.admin.adminSearchTeams({ hint })
-        setTeams(res.data)
-        setCurrent(res.data.length)
-      }
-    } catch (e) {
-      showErrorMsg(e, t)
-    } finally {
-      setSearching(false)
-    }
+  const onSearch = () => {
+    if (hint === query) refresh()
+    else setQuery(hint)
   }
 
   const onDelete = async (team: TeamInfoModel) => {
@@ -117,7 +102,7 @@ const Teams: FC = () => {
       })
       if (teams) updateTeams(teams.filter((x) => x.id !== team.id))
       setCurrent(current - 1)
-      setUpdate(new Date())
+      refresh()
     } catch (e: any) {
       showErrorMsg(e, t)
     } finally {
@@ -145,7 +130,7 @@ const Teams: FC = () => {
           a.id! < b.id! ? -1 : 1
         )
       )
-      setUpdate(new Date())
+      refresh()
     } catch (e: any) {
       showErrorMsg(e, t)
     } finally {
@@ -155,7 +140,7 @@ const Teams: FC = () => {
 
   return (
     <AdminPage
-      isLoading={searching || !teams}
+      isLoading={loading || !teams}
       head={
         <>
           <TextInput
@@ -165,7 +150,7 @@ const Teams: FC = () => {
             value={hint}
             onChange={setHint}
             onKeyDown={(e) => {
-              if (!searching && e.key === 'Enter') onSearch()
+              if (e.key === 'Enter') onSearch()
             }}
             rightSection={<Icon path={mdiAccountGroupOutline} size={1} />}
           />
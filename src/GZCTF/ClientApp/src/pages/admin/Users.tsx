@@ -33,7 +33,7 @@ import { ActionIconWithConfirm } from '@Components/ActionIconWithConfirm'
 import { AdminPage } from '@Components/admin/AdminPage'
 import { UserEditModal, RoleColorMap } from '@Components/admin/UserEditModal'
 import { showErrorMsg } from '@Utils/Shared'
-import { useArrayResponse } from '@Hooks/useArrayResponse'
+import { usePagedQuery } from '@Hooks/usePagedQuery'
 import { useUser } from '@Hooks/useUser'
 import api, { Role, UserInfoModel } from '@Api'
 import tableClasses from '@Styles/Table.module.css'
@@ -42,12 +42,10 @@ const ITEM_COUNT_PER_PAGE = 30
 
 const Users: FC = () => {
   const [page, setPage] = useState(1)
-  const [update, setUpdate] = useState(new Date())
   const [editModalOpened, setEditModalOpened] = useState(false)
   const [activeUser, setActiveUser] = useState<UserInfoModel>({})
-  const { data: users, total, setData: setUsers, updateData: updateUsers } = useArrayResponse<UserInfoModel>()
   const [hint, setHint] = useInputState('')
-  const [searching, setSearching] = useState(false)
+  const [query, setQuery] = useState('')
   const [disabled, setDisabled] = useState(false)
   const [current, setCurrent] = useState(0)
 
@@ -61,42 +59,33 @@ const Users: FC = () => {
     viewport.current?.scrollTo({ top: 0, behavior: 'smooth' })
   }, [page, viewport])
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const res = await api.admin.adminUsers({
-          count: ITEM_COUNT_PER_PAGE,
-          skip: (page - 1) * ITEM_COUNT_PER_PAGE,
-        })
-        setUsers(res.data)
-        setCurrent((page - 1) * ITEM_COUNT_PER_PAGE + res.data.length)
-      } catch (err) {
-        showErrorMsg(err, t)
-      }
+  const {
+    data: users,
+    total,
+    updateData: updateUsers,
+    loading,
+    refresh,
+  } = usePagedQuery<UserInfoModel>(
+    (params) =>
+      query
+        ? api.admin.adminSearchUsers({ hint: query }, params)
+        : api.admin.adminUsers(
+            {
+              count: ITEM_COUNT_PER_PAGE,
+              skip: (page - 1) * ITEM_COUNT_PER_PAGE,
+            },
+            params
+          ),
+    [page, query],
+    {
+      onSuccess: (data) => setCurrent(query ? data.length : (page - 1) * ITEM_COUNT_PER_PAGE + data.length),
+      onError: (err) => showErrorMsg(err, t),
     }
+  )
 
-    fetchData()
-  }, [page, update])
-
-  const onSearch = async () => {
-    try {
-      if (!hint) {
-        const res = await api.admin.adminUsers({
-          count: ITEM_COUNT_PER_PAGE,
-          skip: (page - 1) * ITEM_COUNT_PER_PAGE,
-        })
-        setUsers(res.data)
-        setCurrent((page - 1) * ITEM_COUNT_PER_PAGE + res.data.length)
-      } else {
-        const res = await api.admin.adminSearchUsers({ hint })
-        setUsers(res.data)
-        setCurrent(res.data.length)
-      }
-    } catch (e) {
-      showErrorMsg(e, t)
-    } finally {
-      setSearching(false)
-    }
+  const onSearch = () => {
+    if (hint === query) refresh()
+    else setQuery(hint)
   }
 
   const onToggleActive = async (user: UserInfoModel) => {
@@ -182,7 +171,7 @@ const Users: FC = () => {
         updateUsers(users.filter((x) => x.id !== user.id))
       }
       setCurrent(current - 1)
-      setUpdate(new Date())
+      refresh()
     } catch (e: any) {
       showErrorMsg(e, t)
     } finally {
@@ -192,7 +181,7 @@ const Users: FC = () => {
 
   return (
     <AdminPage
-      isLoading={searching || !users}
+      isLoading={loading || !users}
       head={
         <>
           <TextInput
@@ -202,7 +191,7 @@ const Users: FC = () => {
             value={hint}
             onChange={setHint}
             onKeyDown={(e) => {
-              if (!searching && e.key === 'Enter') onSearch()
+              if (e.key === 'Enter') onSearch()
             }}
             rightSection={<Icon path={mdiAccountOutline} size={1} />}
           />
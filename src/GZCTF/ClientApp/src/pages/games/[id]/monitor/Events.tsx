@@ -25,18 +25,22 @@ import {
   mdiToggleSwitchOutline,
 } from '@mdi/js'
 import { Icon } from '@mdi/react'
-import * as signalR from '@microsoft/signalr'
 import dayjs from 'dayjs'
 import { TFunction } from 'i18next'
 import { FC, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useParams } from 'react-router'
+import { useHubEvent } from '@Components/HubProvider'
+import { HubStatusIndicator } from '@Components/HubStatusIndicator'
 import { WithGameMonitor } from '@Components/WithGameMonitor'
 import { SwitchLabel } from '@Components/admin/SwitchLabel'
 import { handleAxiosError } from '@Utils/ApiHelper'
 import { useLanguage } from '@Utils/I18n'
 import { useDisplayInputStyles } from '@Utils/ThemeOverride'
 import { useGame } from '@Hooks/useGame'
+import { mergeByKey, useHubBackfill } from '@Hooks/useHubBackfill'
+import { useHubConnectedNotice } from '@Hooks/useHubConnectedNotice'
+import { usePagedQuery } from '@Hooks/usePagedQuery'
 import api, { AnswerResult, EventType, GameEvent } from '@Api'
 import tableClasses from '@Styles/Table.module.css'
 
@@ -107,6 +111,8 @@ const formatEvent = (t: TFunction, event: GameEvent) => {
   }
 }
 
+const eventKey = (event: GameEvent) => [event.time, event.type, event.team, event.user, ...event.values].join('|')
+
 const Events: FC = () => {
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
@@ -123,7 +129,7 @@ const Events: FC = () => {
 
   const [, update] = useState(new Date())
   const newEvents = useRef<GameEvent[]>([])
-  const [events, setEvents] = useState<GameEvent[]>()
+  const lastSeen = useRef<number>(undefined)
 
   const { game } = useGame(numId)
 
@@ -136,71 +142,84 @@ const Events: FC = () => {
     viewport.current?.scrollTo({ top: 0, behavior: 'smooth' })
   }, [activePage, viewport])
 
-  useEffect(() => {
-    const fetchEvents = async () => {
-      try {
-        const res = await api.game.gameEvents(numId, {
+  const { data: events } = usePagedQuery<GameEvent>(
+    (params) =>
+      api.game.gameEvents(
+        numId,
+        {
           hideContainer: hideContainerEvents,
           count: ITEM_COUNT_PER_PAGE,
           skip: (activePage - 1) * ITEM_COUNT_PER_PAGE,
-        })
-        setEvents(res.data)
-      } catch (err) {
+        },
+        params
+      ),
+    [activePage, hideContainerEvents, numId],
+    {
+      onSuccess: (data) => {
+        if (activePage === 1) lastSeen.current = Math.max(lastSeen.current ?? 0, data.at(0)?.time ?? 0)
+      },
+      onError: async (err) =>
         showNotification({
           color: 'red',
           title: t('game.notification.fetch_failed.event'),
           message: await handleAxiosError(err),
           icon: <Icon path={mdiClose} size={1} />,
-        })
-      }
+        }),
     }
+  )
 
-    fetchEvents()
-
+  useEffect(() => {
     if (activePage === 1) {
       newEvents.current = []
     }
-  }, [activePage, hideContainerEvents, numId, t])
-
-  useEffect(() => {
-    if (game?.end && new Date() < new Date(game.end)) {
-      const connection = new signalR.HubConnectionBuilder()
-        .withUrl(`/hub/monitor?game=${numId}`)
-        .withHubProtocol(new signalR.JsonHubProtocol())
-        .withAutomaticReconnect()
-        .configureLogging(signalR.LogLevel.None)
-        .build()
+  }, [activePage, hideContainerEvents, numId])
 
-      connection.serverTimeoutInMilliseconds = 60 * 1000 * 60 * 2
+  const hubEnabled = !!game?.end && new Date() < new Date(game.end)
 
-      connection.on('ReceivedGameEvent', (message: GameEvent) => {
-        console.log(message)
-        newEvents.current = [message, ...newEvents.current]
-        update(new Date(message.time!))
-      })
-
-      const startConnection = async () => {
-        try {
-          await connection.start()
-          showNotification({
-            color: 'teal',
-            message: t('game.notification.connected.event'),
-            icon: <Icon path={mdiCheck} size={1} />,
-          })
-        } catch (err) {
-          console.error(err)
-        }
-      }
+  const { state: hubState, reconnects } = useHubEvent(
+    'ReceivedGameEvent',
+    (message) => {
+      newEvents.current = [message, ...newEvents.current]
+      lastSeen.current = Math.max(lastSeen.current ?? 0, message.time)
+      update(new Date(message.time!))
+    },
+    { game: numId, enabled: hubEnabled }
+  )
 
-      startConnection()
+  useHubBackfill({
+    reconnects,
+    since: lastSeen.current,
+    pageSize: ITEM_COUNT_PER_PAGE,
+    fetchPage: async (skip, count) =>
+      (await api.game.gameEvents(numId, { hideContainer: hideContainerEvents, count, skip })).data,
+    getTime: (event) => event.time,
+    onBackfill: (items) => {
+      newEvents.current = mergeByKey(
+        newEvents.current,
+        items,
+        eventKey,
+        (event) => event.time,
+        activePage === 1 ? events : []
+      )
+      lastSeen.current = Math.max(lastSeen.current ?? 0, newEvents.current.at(0)?.time ?? 0)
+      update(new Date())
+    },
+    onError: async (err) =>
+      showNotification({
+        color: 'red',
+        title: t('game.notification.fetch_failed.event'),
+        message: await handleAxiosError(err),
+        icon: <Icon path={mdiClose} size={1} />,
+      }),
+  })
 
-      return () => {
-        connection.stop().catch((err) => {
-          console.error(err)
-        })
-      }
-    }
-  }, [game, numId, t])
+  useHubConnectedNotice(hubState, () =>
+    showNotification({
+      color: 'teal',
+      message: t('game.notification.connected.event'),
+      icon: <Icon path={mdiCheck} size={1} />,
+    })
+  )
 
   const filteredEvents = newEvents.current.filter(
     (e) => !hideContainerEvents || (e.type !== EventType.ContainerStart && e.type !== EventType.ContainerDestroy)
@@ -218,6 +237,7 @@ const Events: FC = () => {
           onChange={(e) => setHideContainerEvents(e.currentTarget.checked)}
         />
         <Group justify="right">
+          {hubEnabled && <HubStatusIndicator state={hubState} />}
           <ActionIcon size="lg" disabled={activePage <= 1} onClick={() => setPage(1)}>
             <Icon path={mdiReplay} size={1} />
           </ActionIcon>
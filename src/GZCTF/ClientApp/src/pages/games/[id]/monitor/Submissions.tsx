@@ -26,16 +26,19 @@ import {
   mdiReplay,
 } from '@mdi/js'
 import { Icon } from '@mdi/react'
-import * as signalR from '@microsoft/signalr'
 import dayjs from 'dayjs'
 import { FC, useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useParams } from 'react-router'
+import { useHubEvent } from '@Components/HubProvider'
+import { HubStatusIndicator } from '@Components/HubStatusIndicator'
 import { WithGameMonitor } from '@Components/WithGameMonitor'
 import { downloadBlob, handleAxiosError } from '@Utils/ApiHelper'
 import { useLanguage } from '@Utils/I18n'
 import { useDisplayInputStyles } from '@Utils/ThemeOverride'
 import { useGame } from '@Hooks/useGame'
+import { mergeByKey, useHubBackfill } from '@Hooks/useHubBackfill'
+import { useHubConnectedNotice } from '@Hooks/useHubConnectedNotice'
 import api, { AnswerResult, Submission } from '@Api'
 import tableClasses from '@Styles/Table.module.css'
 import tooltipClasses from '@Styles/Tooltip.module.css'
@@ -64,6 +67,9 @@ const AnswerResultIconMap = (size: number) => {
   ])
 }
 
+const submissionKey = (item: Submission) =>
+  [item.time, item.team, item.user, item.challenge, item.status, item.answer].join('|')
+
 const Submissions: FC = () => {
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
@@ -72,6 +78,7 @@ const Submissions: FC = () => {
 
   const [, update] = useState(new Date())
   const newSubmissions = useRef<Submission[]>([])
+  const lastSeen = useRef<number>(undefined)
   const [submissions, setSubmissions] = useState<Submission[]>()
   const [type, setType] = useState<AnswerResult | 'All'>('All')
   const [disabled, setDisabled] = useState(false)
@@ -99,6 +106,7 @@ const Submissions: FC = () => {
           skip: (activePage - 1) * ITEM_COUNT_PER_PAGE,
         })
         setSubmissions(res.data)
+        if (activePage === 1) lastSeen.current = Math.max(lastSeen.current ?? 0, res.data.at(0)?.time ?? 0)
       } catch (err) {
         showNotification({
           color: 'red',
@@ -116,45 +124,51 @@ const Submissions: FC = () => {
     }
   }, [activePage, type, numId, t])
 
-  useEffect(() => {
-    if (game?.end && new Date() < new Date(game.end)) {
-      const connection = new signalR.HubConnectionBuilder()
-        .withUrl(`/hub/monitor?game=${numId}`)
-        .withHubProtocol(new signalR.JsonHubProtocol())
-        .withAutomaticReconnect()
-        .configureLogging(signalR.LogLevel.None)
-        .build()
-
-      connection.serverTimeoutInMilliseconds = 60 * 1000 * 60 * 2
+  const hubEnabled = !!game?.end && new Date() < new Date(game.end)
 
-      connection.on('ReceivedSubmissions', (message: Submission) => {
-        console.log(message)
-        newSubmissions.current = [message, ...newSubmissions.current]
-        update(new Date(message.time!))
-      })
-
-      const startConnection = async () => {
-        try {
-          await connection.start()
-          showNotification({
-            color: 'teal',
-            message: t('game.notification.connected.submission'),
-            icon: <Icon path={mdiCheck} size={1} />,
-          })
-        } catch (err) {
-          console.error(err)
-        }
-      }
+  const { state: hubState, reconnects } = useHubEvent(
+    'ReceivedSubmissions',
+    (message) => {
+      newSubmissions.current = [message, ...newSubmissions.current]
+      lastSeen.current = Math.max(lastSeen.current ?? 0, message.time ?? 0)
+      update(new Date(message.time!))
+    },
+    { game: numId, enabled: hubEnabled }
+  )
 
-      startConnection()
+  useHubBackfill({
+    reconnects,
+    since: lastSeen.current,
+    pageSize: ITEM_COUNT_PER_PAGE,
+    fetchPage: async (skip, count) => (await api.game.gameSubmissions(numId, { count, skip })).data,
+    getTime: (item) => item.time,
+    onBackfill: (items) => {
+      newSubmissions.current = mergeByKey(
+        newSubmissions.current,
+        items,
+        submissionKey,
+        (item) => item.time,
+        activePage === 1 ? submissions : []
+      )
+      lastSeen.current = Math.max(lastSeen.current ?? 0, newSubmissions.current.at(0)?.time ?? 0)
+      update(new Date())
+    },
+    onError: async (err) =>
+      showNotification({
+        color: 'red',
+        title: t('game.notification.fetch_failed.submission'),
+        message: await handleAxiosError(err),
+        icon: <Icon path={mdiClose} size={1} />,
+      }),
+  })
 
-      return () => {
-        connection.stop().catch((err) => {
-          console.error(err)
-        })
-      }
-    }
-  }, [game, numId, t])
+  useHubConnectedNotice(hubState, () =>
+    showNotification({
+      color: 'teal',
+      message: t('game.notification.connected.submission'),
+      icon: <Icon path={mdiCheck} size={1} />,
+    })
+  )
 
   const filteredSubs = newSubmissions.current.filter((item) => type === 'All' || item.status === type)
 
@@ -221,6 +235,7 @@ const Submissions: FC = () => {
           ]}
         />
         <Group justify="right">
+          {hubEnabled && <HubStatusIndicator state={hubState} />}
           <Tooltip label={t('game.button.download.submissionsheet')} position="left" classNames={tooltipClasses}>
             <ActionIcon disabled={disabled} size="lg" onClick={onDownloadSubmissionSheet}>
               <Icon path={mdiDownload} size={1} />
@@ -1,40 +1,58 @@
 import { Stack } from '@mantine/core'
-import { FC, useState } from 'react'
+import { FC, useMemo, useState } from 'react'
 import { useParams } from 'react-router'
 import { ScoreboardTable } from '@Components/ScoreboardTable'
+import { ScoreboardTimeSlider } from '@Components/ScoreboardTimeSlider'
 import { TeamRank } from '@Components/TeamRank'
 import { WithGameTab } from '@Components/WithGameTab'
 import { WithNavBar } from '@Components/WithNavbar'
 import { ScoreTimeLine } from '@Components/charts/ScoreTimeLine'
 import { MobileScoreboardTable } from '@Components/mobile/ScoreboardTable'
+import { replayScoreboard } from '@Utils/Scoreboard'
 import { useIsMobile } from '@Utils/ThemeOverride'
-import { useGameTeamInfo } from '@Hooks/useGame'
+import { getGameStatus, useGame, useGameScoreboard, useGameTeamInfo } from '@Hooks/useGame'
 
 const Scoreboard: FC = () => {
   const { id } = useParams()
   const numId = parseInt(id ?? '-1')
   const { teamInfo, error } = useGameTeamInfo(numId)
+  const { game } = useGame(numId)
+  const { scoreboard } = useGameScoreboard(numId)
 
   const [division, setDivision] = useState<string | null>('all')
+  const [time, setTime] = useState<number | null>(null)
   const isMobile = useIsMobile(1080)
   const isVertical = useIsMobile()
 
+  const replayed = useMemo(
+    () => (time !== null && scoreboard ? replayScoreboard(scoreboard, time) : undefined),
+    [scoreboard, time]
+  )
+
+  const { started } = getGameStatus(game)
+
+  const slider = game && started && (
+    <ScoreboardTimeSlider start={game.start ?? 0} end={game.end ?? 0} value={time} onChange={setTime} />
+  )
+
   return (
     <WithNavBar width="90%" minWidth={0}>
       {isMobile ? (
         <Stack pt="md">
           {teamInfo && !error && <TeamRank />}
+          {slider}
           {isVertical ? (
-            <MobileScoreboardTable division={division ?? 'all'} setDivision={setDivision} />
+            <MobileScoreboardTable division={division ?? 'all'} setDivision={setDivision} scoreboard={replayed} />
           ) : (
-            <ScoreboardTable division={division ?? 'all'} setDivision={setDivision} />
+            <ScoreboardTable division={division ?? 'all'} setDivision={setDivision} scoreboard={replayed} />
           )}
         </Stack>
       ) : (
         <WithGameTab>
           <Stack pb="2rem">
-            <ScoreTimeLine division={division ?? 'all'} />
-            <ScoreboardTable division={division ?? 'all'} setDivision={setDivision} />
+            <ScoreTimeLine division={division ?? 'all'} scoreboard={replayed} />
+            {slider}
+            <ScoreboardTable division={division ?? 'all'} setDivision={setDivision} scoreboard={replayed} />
           </Stack>
         </WithGameTab>
       )}
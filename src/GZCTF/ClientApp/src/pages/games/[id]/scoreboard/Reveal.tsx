@@ -0,0 +1,153 @@
+import { Button, Card, Group, NumberInput, Stack, Text } from '@mantine/core'
+import { useHotkeys, useSessionStorage } from '@mantine/hooks'
+import { mdiEyeOutline, mdiRestore, mdiSkipNext, mdiStepForward } from '@mdi/js'
+import { Icon } from '@mdi/react'
+import { FC, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useParams } from 'react-router'
+import { ScoreboardTable } from '@Components/ScoreboardTable'
+import { WithGameTab } from '@Components/WithGameTab'
+import { WithNavBar } from '@Components/WithNavbar'
+import { WithRole } from '@Components/WithRole'
+import { ScoreTimeLine } from '@Components/charts/ScoreTimeLine'
+import { freezeScoreboard, nextReveal, solveKey } from '@Utils/Scoreboard'
+import { useGame, useGameScoreboard } from '@Hooks/useGame'
+import { Role } from '@Api'
+
+const DEFAULT_FREEZE_MINUTES = 60
+
+const Reveal: FC = () => {
+  const { id } = useParams()
+  const numId = parseInt(id ?? '-1')
+
+  const { game } = useGame(numId)
+  const { scoreboard } = useGameScoreboard(numId)
+
+  const [division, setDivision] = useState<string | null>('all')
+  const [minutes, setMinutes] = useSessionStorage({
+    key: `reveal-freeze-${numId}`,
+    defaultValue: DEFAULT_FREEZE_MINUTES,
+  })
+  // kept for the session, so a reload during the ceremony does not start over
+  const [revealed, setRevealed] = useSessionStorage<string[]>({ key: `reveal-solves-${numId}`, defaultValue: [] })
+
+  const { t } = useTranslation()
+
+  const freeze = (game?.end ?? 0) - minutes * 60 * 1000
+
+  const frozen = useMemo(
+    () => (game && scoreboard ? freezeScoreboard(scoreboard, freeze, new Set(revealed)) : null),
+    [game, scoreboard, freeze, revealed]
+  )
+
+  const next = frozen && nextReveal(frozen)
+  const pendingCount = [...(frozen?.pending.values() ?? [])].reduce((sum, list) => sum + list.length, 0)
+  const challenge =
+    next &&
+    Object.values(frozen.board.challenges ?? {})
+      .flat()
+      .find((c) => c.id === next.solve.id)
+
+  const revealNext = () => {
+    if (next) setRevealed([...revealed, solveKey(next.team.id!, next.solve.id!)])
+  }
+
+  const revealTeam = () => {
+    if (!next) return
+    const solves = frozen.pending.get(next.team.id!) ?? []
+    setRevealed([...revealed, ...solves.map((c) => solveKey(next.team.id!, c.id!))])
+  }
+
+  const revealAll = () => {
+    if (!frozen) return
+    const keys = [...frozen.pending].flatMap(([team, solves]) => solves.map((c) => solveKey(team, c.id!)))
+    setRevealed([...revealed, ...keys])
+  }
+
+  // presentation clickers send these keys
+  useHotkeys([
+    ['ArrowRight', revealNext],
+    ['PageDown', revealNext],
+  ])
+
+  return (
+    <WithNavBar width="90%" minWidth={0}>
+      <WithRole requiredRole={Role.Admin}>
+        <WithGameTab>
+          <Stack pb="2rem">
+            <Card>
+              <Group justify="space-between" align="flex-end">
+                <Group align="flex-end">
+                  <NumberInput
+                    label={t('game.label.reveal.freeze')}
+                    w="14rem"
+                    min={0}
+                    value={minutes}
+                    onChange={(value) => {
+                      setMinutes(Number(value) || 0)
+                      setRevealed([])
+                    }}
+                  />
+                  <Stack gap={0}>
+                    <Text fw="bold">{t('game.label.reveal.pending', { count: pendingCount })}</Text>
+                    <Text size="sm" c="dimmed">
+                      {next
+                        ? t('game.content.reveal.next', { team: next.team.name, chal: challenge?.title })
+                        : t('game.content.reveal.done')}
+                    </Text>
+                  </Stack>
+                </Group>
+                <Group>
+                  <Button
+                    variant="default"
+                    leftSection={<Icon path={mdiRestore} size={1} />}
+                    disabled={revealed.length === 0}
+                    onClick={() => setRevealed([])}
+                  >
+                    {t('game.button.reveal.reset')}
+                  </Button>
+                  <Button
+                    variant="default"
+                    leftSection={<Icon path={mdiEyeOutline} size={1} />}
+                    disabled={!next}
+                    onClick={revealAll}
+                  >
+                    {t('game.button.reveal.all')}
+                  </Button>
+                  <Button
+                    variant="default"
+                    leftSection={<Icon path={mdiSkipNext} size={1} />}
+                    disabled={!next}
+                    onClick={revealTeam}
+                  >
+                    {t('game.button.reveal.team')}
+                  </Button>
+                  <Button leftSection={<Icon path={mdiStepForward} size={1} />} disabled={!next} onClick={revealNext}>
+                    {t('game.button.reveal.next')}
+                  </Button>
+                </Group>
+              </Group>
+              <Text size="xs" c="dimmed" mt="xs">
+                {t('game.content.reveal.hotkey')}
+              </Text>
+            </Card>
+            {frozen && (
+              <>
+                <ScoreTimeLine division={division ?? 'all'} scoreboard={frozen.board} />
+                <ScoreboardTable
+                  division={division ?? 'all'}
+                  setDivision={setDivision}
+                  scoreboard={frozen.board}
+                  pending={frozen.pending}
+                  focus={next?.team.id}
+                />
+              </>
+            )}
+          </Stack>
+        </WithGameTab>
+      </WithRole>
+    </WithNavBar>
+  )
+}
+
+export default Reveal
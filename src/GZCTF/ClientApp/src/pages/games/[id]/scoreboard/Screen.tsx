@@ -0,0 +1,274 @@
+import {
+  Avatar,
+  Box,
+  Card,
+  Center,
+  Grid,
+  Group,
+  List,
+  Loader,
+  Stack,
+  Table,
+  Text,
+  Title,
+  useMantineColorScheme,
+  useMantineTheme,
+} from '@mantine/core'
+import { Icon } from '@mdi/react'
+import cx from 'clsx'
+import dayjs from 'dayjs'
+import { FC, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useParams, useSearchParams } from 'react-router'
+import { Empty } from '@Components/Empty'
+import { formatNotice } from '@Components/GameNoticePanel'
+import { useHubEvent } from '@Components/HubProvider'
+import { RankDelta } from '@Components/ScoreboardTable'
+import { GameCountdown } from '@Components/WithGameTab'
+import { ScoreTimeLine } from '@Components/charts/ScoreTimeLine'
+import { useLanguage } from '@Utils/I18n'
+import { NoticTypeIconMap } from '@Utils/Shared'
+import { OnceSWRConfig } from '@Hooks/useConfig'
+import { useGame, useGameScoreboard } from '@Hooks/useGame'
+import { usePageTitle } from '@Hooks/usePageTitle'
+import { ScoreboardItemChange, useFlipRows, useScoreboardChanges } from '@Hooks/useScoreboardChanges'
+import api, { GameNotice, NoticeType, ScoreboardItem } from '@Api'
+import classes from '@Styles/ScoreboardScreen.module.css'
+import tableClasses from '@Styles/ScoreboardTable.module.css'
+
+const DEFAULT_INTERVAL = 10
+const DEFAULT_TOP = 30
+const DEFAULT_ROWS = 15
+const FEED_LENGTH = 12
+
+const BloodTypes = [NoticeType.FirstBlood, NoticeType.SecondBlood, NoticeType.ThirdBlood]
+
+const readNumber = (value: string | null, fallback: number) => {
+  const num = parseInt(value ?? '')
+  return Number.isNaN(num) || num <= 0 ? fallback : num
+}
+
+/**
+ * Force the color scheme while the screen is shown, the previous one is restored on leaving
+ */
+const useForcedColorScheme = (scheme: string | null) => {
+  const { colorScheme, setColorScheme } = useMantineColorScheme()
+  const previous = useRef(colorScheme)
+
+  useEffect(() => {
+    if (scheme !== 'dark' && scheme !== 'light') return
+
+    const restore = previous.current
+    setColorScheme(scheme)
+    return () => setColorScheme(restore)
+  }, [scheme])
+}
+
+interface ScreenTableProps {
+  items: ScoreboardItem[]
+  allRank: boolean
+  changes: Map<number, ScoreboardItemChange>
+  /** the scoreboard the items come from, rows are only animated when it changes */
+  board?: ScoreboardItem[] | null
+}
+
+const ScreenTable: FC<ScreenTableProps> = ({ items, allRank, changes, board }) => {
+  const theme = useMantineTheme()
+  const tbodyRef = useRef<HTMLTableSectionElement>(null)
+
+  useFlipRows(tbodyRef, board)
+
+  const { t } = useTranslation()
+
+  return (
+    <Table className={classes.table} verticalSpacing="xs">
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th w="6rem">{t('game.label.score_table.rank_total')}</Table.Th>
+          <Table.Th>{t('game.label.score_table.team')}</Table.Th>
+          <Table.Th w="7rem">{t('game.label.score_table.solved_count')}</Table.Th>
+          <Table.Th w="8rem">{t('game.label.score_table.score_total')}</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody ref={tbodyRef}>
+        {items.map((item) => {
+          const change = changes.get(item.id!)
+          return (
+            <Table.Tr key={item.id} data-flip-key={item.id}>
+              <Table.Td className={tableClasses.mono}>
+                {allRank ? item.rank : item.divisionRank}
+                <RankDelta delta={allRank ? change?.rank : change?.divisionRank} />
+              </Table.Td>
+              <Table.Td>
+                <Group gap="sm" wrap="nowrap">
+                  <Avatar alt="avatar" src={item.avatar} radius="xl" size={36} color={theme.primaryColor}>
+                    {item.name?.slice(0, 1) ?? 'T'}
+                  </Avatar>
+                  <Text fw={600} truncate>
+                    {item.name}
+                  </Text>
+                </Group>
+              </Table.Td>
+              <Table.Td className={tableClasses.mono}>{item.solvedCount}</Table.Td>
+              <Table.Td className={cx(tableClasses.mono, !!change?.solved.length && tableClasses.solved)}>
+                {item.score}
+              </Table.Td>
+            </Table.Tr>
+          )
+        })}
+      </Table.Tbody>
+    </Table>
+  )
+}
+
+const BloodFeed: FC<{ game: number }> = ({ game }) => {
+  const { t } = useTranslation()
+  const { locale } = useLanguage()
+  const iconMap = NoticTypeIconMap(1)
+
+  const { data: notices, mutate } = api.game.useGameNotices(game, {}, OnceSWRConfig)
+  const [pushed, setPushed] = useState<GameNotice[]>([])
+
+  const { reconnects } = useHubEvent(
+    'ReceivedGameNotice',
+    (message) => {
+      if (BloodTypes.includes(message.type)) setPushed((list) => [message, ...list].slice(0, FEED_LENGTH))
+    },
+    { game }
+  )
+
+  // bloods pushed while the connection was lost are missed
+  useEffect(() => {
+    if (reconnects > 0) mutate()
+  }, [reconnects])
+
+  const feed = useMemo(() => {
+    const known = new Set(pushed.map((n) => n.id))
+    return [...pushed, ...(notices ?? []).filter((n) => BloodTypes.includes(n.type) && !known.has(n.id))]
+      .sort((a, b) => b.time - a.time)
+      .slice(0, FEED_LENGTH)
+  }, [pushed, notices])
+
+  if (!feed.length) return <Empty description={t('game.content.no_notice')} />
+
+  return (
+    <List spacing="xs" classNames={{ itemWrapper: classes.feedItem }}>
+      {feed.map((notice) => (
+        <List.Item
+          key={notice.id}
+          icon={<Icon {...iconMap.get(notice.type)!} />}
+          className={cx(pushed.includes(notice) && classes.fresh)}
+        >
+          <Text fw={600}>{formatNotice(t, notice)}</Text>
+          <Text size="sm" c="dimmed" ff="monospace">
+            {dayjs(notice.time).locale(locale).format('LTS')}
+          </Text>
+        </List.Item>
+      ))}
+    </List>
+  )
+}
+
+const Screen: FC = () => {
+  const { id } = useParams()
+  const numId = parseInt(id ?? '-1')
+  const [params] = useSearchParams()
+
+  const division = params.get('division') || 'all'
+  const interval = readNumber(params.get('interval'), DEFAULT_INTERVAL)
+  const top = readNumber(params.get('top'), DEFAULT_TOP)
+  const rows = readNumber(params.get('rows'), DEFAULT_ROWS)
+
+  useForcedColorScheme(params.get('theme'))
+
+  const { game, error: gameError } = useGame(numId)
+  const { scoreboard, error } = useGameScoreboard(numId)
+  const changes = useScoreboardChanges(numId, scoreboard?.items)
+  const [page, setPage] = useState(0)
+
+  const { t } = useTranslation()
+
+  usePageTitle(game?.title)
+
+  const ranked = useMemo(() => {
+    const items = scoreboard?.items ?? []
+    return (division === 'all' ? items : items.filter((item) => item.division === division)).slice(0, top)
+  }, [scoreboard, division, top])
+
+  const pages = Math.max(Math.ceil(ranked.length / rows), 1)
+
+  useEffect(() => {
+    if (pages <= 1) {
+      setPage(0)
+      return
+    }
+
+    const timer = setInterval(() => setPage((p) => (p + 1) % pages), interval * 1000)
+    return () => clearInterval(timer)
+  }, [pages, interval])
+
+  if (gameError || error) {
+    return (
+      <Center h="100vh">
+        <Empty description={t('common.error.try_later')} />
+      </Center>
+    )
+  }
+
+  if (!game || !scoreboard) {
+    return (
+      <Center h="100vh">
+        <Loader />
+      </Center>
+    )
+  }
+
+  const current = page % pages
+
+  return (
+    <Stack className={classes.screen} gap="md">
+      <Group justify="space-between" wrap="nowrap">
+        <Stack gap={0}>
+          <Title order={1}>{game.title}</Title>
+          {division !== 'all' && (
+            <Text size="xl" c="dimmed" fw={600}>
+              {division}
+            </Text>
+          )}
+        </Stack>
+        <GameCountdown game={game} />
+      </Group>
+      <Grid classNames={{ root: classes.body, inner: classes.inner }} gutter="md">
+        <Grid.Col span={7} h="100%">
+          <Card h="100%">
+            <ScreenTable
+              allRank={division === 'all'}
+              items={ranked.slice(current * rows, (current + 1) * rows)}
+              changes={changes}
+              board={scoreboard.items}
+            />
+            {pages > 1 && (
+              <Text ta="right" c="dimmed" ff="monospace" mt="auto">
+                {current + 1} / {pages}
+              </Text>
+            )}
+          </Card>
+        </Grid.Col>
+        <Grid.Col span={5} h="100%">
+          <Stack h="100%" gap="md">
+            <Card p="xs">
+              <ScoreTimeLine division={division} />
+            </Card>
+            <Card className={classes.feed}>
+              <Box className={classes.feedScroll}>
+                <BloodFeed game={numId} />
+              </Box>
+            </Card>
+          </Stack>
+        </Grid.Col>
+      </Grid>
+    </Stack>
+  )
+}
+
+export default Screen
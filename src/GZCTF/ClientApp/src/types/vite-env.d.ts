@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_APP_BUILD_TIMESTAMP: string
   readonly VITE_APP_GIT_SHA: string
   readonly VITE_APP_GIT_NAME: string
+  /** serve the api and hubs from fixtures, the value names the scenario, see utils/mock/Scenarios.ts */
+  readonly VITE_MOCK?: string
 }
 
 interface ImportMeta {
@@ -1,8 +1,89 @@
+import { UseFormReturnType } from '@mantine/form'
 import { showNotification, updateNotification } from '@mantine/notifications'
 import { mdiCheck, mdiClose } from '@mdi/js'
 import { Icon } from '@mdi/react'
 import { AxiosError, AxiosResponse } from 'axios'
-import { ContentType } from '@Api'
+import { ContentType, ProblemDetails } from '@Api'
+
+/**
+ * Error response of the api, with the validation errors of each field
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly title: string,
+    readonly status?: number,
+    readonly detail?: string,
+    /** messages keyed by the camelCase field name */
+    readonly errors: Record<string, string[]> = {}
+  ) {
+    super(detail || title)
+    this.name = 'ApiError'
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.errors).length > 0
+  }
+
+  /**
+   * Parse the `ProblemDetails` in the response, returns null for other errors
+   */
+  static from(err: unknown): ApiError | null {
+    if (err instanceof ApiError) return err
+    if (!(err instanceof AxiosError) || !err.response) return null
+
+    const data = err.response.data as ProblemDetails | string | undefined
+    if (!data || typeof data !== 'object' || data instanceof Blob) {
+      return new ApiError(typeof data === 'string' && data ? data : err.message, err.response.status)
+    }
+
+    const errors: Record<string, string[]> = {}
+    if (data.errors && typeof data.errors === 'object') {
+      for (const [key, value] of Object.entries(data.errors as Record<string, string[] | string>)) {
+        const messages = Array.isArray(value) ? value : [value]
+        if (messages.length > 0) errors[normalizeFieldName(key)] = messages
+      }
+    }
+
+    return new ApiError(data.title || err.message, data.status ?? err.response.status, data.detail ?? undefined, errors)
+  }
+}
+
+// `$.userName`, `Model.UserName` and `UserName` all refer to the `userName` field
+const normalizeFieldName = (key: string) =>
+  key
+    .replace(/^\$\.?/, '')
+    .split('.')
+    .map((part) => part.charAt(0).toLowerCase() + part.slice(1))
+    .join('.')
+    .replace(/^model\./, '')
+
+/**
+ * Show the validation errors of the api on the form fields,
+ * returns false if none of them belongs to the form
+ *
+ * @param aliases map the api field names to the form paths if they differ
+ */
+export const setFormErrors = <T extends Record<string, any>>(
+  form: UseFormReturnType<T>,
+  err: unknown,
+  aliases: Record<string, string> = {}
+) => {
+  const apiError = ApiError.from(err)
+  if (!apiError?.hasFieldErrors) return false
+
+  const values = form.getValues()
+  const formErrors: Record<string, string> = {}
+
+  for (const [key, messages] of Object.entries(apiError.errors)) {
+    const path = aliases[key] ?? key
+    if (path.split('.')[0] in values) formErrors[path] = messages.join(' ')
+  }
+
+  if (Object.keys(formErrors).length === 0) return false
+
+  form.setErrors(formErrors)
+  return true
+}
 
 export const handleAxiosError = async (err: unknown) => {
   if (err instanceof AxiosError) {
@@ -26,21 +107,25 @@ export const handleAxiosError = async (err: unknown) => {
   }
 }
 
+export const openBlob = (blob: Blob, downloadFilename?: string) => {
+  const blobURL = window.URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.style.display = 'none'
+  anchor.href = blobURL
+  if (downloadFilename) {
+    anchor.download = downloadFilename
+  }
+  document.body.appendChild(anchor)
+  anchor.click()
+  window.setTimeout(() => {
+    anchor.remove()
+    window.URL.revokeObjectURL(blobURL)
+  })
+}
+
 const openAxiosBlobResponse = (res: AxiosResponse, downloadFilename?: string) => {
   if (res.data instanceof Blob) {
-    const blobURL = window.URL.createObjectURL(res.data)
-    const anchor = document.createElement('a')
-    anchor.style.display = 'none'
-    anchor.href = blobURL
-    if (downloadFilename) {
-      anchor.download = downloadFilename
-    }
-    document.body.appendChild(anchor)
-    anchor.click()
-    window.setTimeout(() => {
-      anchor.remove()
-      window.URL.revokeObjectURL(blobURL)
-    })
+    openBlob(res.data, downloadFilename)
   } else {
     throw new Error('Response data is not a Blob')
   }
@@ -1,6 +1,9 @@
 import LZString from 'lz-string'
 import { gzip, ungzip } from 'pako'
-import type { Cache } from 'swr'
+import { useEffect } from 'react'
+import { useSWRConfig } from 'swr'
+import type { Cache, ScopedMutator } from 'swr'
+import { ValidatedRepoMeta } from '@Hooks/useConfig'
 
 // -----------------------------------------
 // SWR Persistent Cache (Improved)
@@ -10,11 +13,75 @@ const LEGACY_CACHE_KEY = 'gzctf-cache'
 const IDB_DB_NAME = 'gzctf-cache'
 const IDB_STORE = 'swr'
 const IDB_KEY = 'cache-map'
+const IDB_VERSION = 3
+
+// other persistent data sharing the database, see utils/Outbox.ts and utils/Notes.ts
+export const IDB_OUTBOX_STORE = 'outbox'
+export const IDB_NOTES_STORE = 'notes'
 
 type BinaryLike = Uint8Array | ArrayBuffer
 
+// snapshots from another build may carry stale response shapes
+const CACHE_VERSION = (() => {
+  const { sha, timestamp } = ValidatedRepoMeta()
+  return `${sha}@${timestamp}`
+})()
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// LRU bounds of the persisted snapshot, the in-memory cache is not limited
+const MAX_PERSIST_ENTRIES = 256
+const MAX_PERSIST_BYTES = 4 * 1024 * 1024
+
+interface CacheRule {
+  pattern: RegExp
+  ttl: number
+}
+
+/**
+ * Only keys matching one of these rules are persisted, the first match decides the TTL.
+ * Keep sensitive responses like `/api/account/profile`, `/api/team/{id}/invite`
+ * or `/api/game/{id}/details` (carries the team token) out of this list.
+ */
+const PersistRules: CacheRule[] = [
+  { pattern: /^\/api\/config$/, ttl: 30 * DAY },
+  { pattern: /^\/api\/game\/\d+\/scoreboard$/, ttl: 5 * MINUTE },
+  { pattern: /^\/api\/game\/\d+\/notices$/, ttl: 10 * MINUTE },
+  { pattern: /^\/api\/game\/\d+$/, ttl: DAY },
+  { pattern: /^\/api\/game(\/recent)?$/, ttl: DAY },
+  { pattern: /^\/api\/posts(\/latest|\/\w+)?$/, ttl: 3 * DAY },
+  { pattern: /^\/api\/team$/, ttl: DAY },
+]
+
+// array keys are serialized by SWR as `@"path",...`
+const keyPath = (key: any) => (typeof key === 'string' ? key.replace(/^@"/, '').replace(/".*$/, '') : '')
+
+const getTTL = (key: any) => {
+  const path = keyPath(key)
+  return PersistRules.find((rule) => rule.pattern.test(path))?.ttl
+}
+
+interface EntryMeta {
+  /** last time the value was set */
+  updated: number
+  /** last time the value was read or set */
+  accessed: number
+}
+
+type SnapshotEntry = [key: any, value: any, updated: number, accessed: number]
+
+type SyncMessage = { type: 'set'; key: string; data: any } | { type: 'delete'; key: string } | { type: 'clear' }
+
+interface CacheSnapshot {
+  version: string
+  entries: SnapshotEntry[]
+}
+
 class PersistentCache implements Cache<any> {
   private map = new Map<any, any>()
+  private meta = new Map<any, EntryMeta>()
 
   get size() {
     return this.map.size
@@ -22,23 +89,33 @@ class PersistentCache implements Cache<any> {
 
   // Basic Map interface required by SWR
   get(key: any) {
+    const meta = this.meta.get(key)
+    if (meta) meta.accessed = Date.now()
     return this.map.get(key)
   }
   has(key: any) {
     return this.map.has(key)
   }
   set(key: any, value: any) {
+    const now = Date.now()
+    const prev = this.map.get(key)
     this.map.set(key, value)
+    this.meta.set(key, { updated: now, accessed: now })
     schedulePersist()
+    // SWR sets the state for every validation, only new data is worth sharing
+    if (value?.data !== prev?.data) broadcastSet(key, value?.data)
     return this
   }
   delete(key: any) {
     const r = this.map.delete(key)
+    this.meta.delete(key)
     schedulePersist()
+    if (r && typeof key === 'string') broadcast({ type: 'delete', key })
     return r as any
   }
   clear() {
     this.map.clear()
+    this.meta.clear()
     schedulePersist()
   }
   // Iteration
@@ -59,12 +136,13 @@ class PersistentCache implements Cache<any> {
   }
 
   // Bulk hydrate (from_iter style)
-  bulkAdd(entries: [any, any][]) {
+  bulkAdd(entries: SnapshotEntry[]) {
     if (!entries.length) return
     let added = 0
-    for (const [k, v] of entries) {
+    for (const [k, v, updated, accessed] of entries) {
       if (!this.map.has(k)) {
         this.map.set(k, v)
+        this.meta.set(k, { updated, accessed })
         added++
       }
     }
@@ -75,9 +153,124 @@ class PersistentCache implements Cache<any> {
     return added
   }
 
-  snapshotEntries() {
-    return Array.from(this.map.entries())
+  /**
+   * Apply a change made in another tab without sending it back
+   */
+  receive(message: SyncMessage) {
+    switch (message.type) {
+      case 'set':
+        if (boundMutate) {
+          // goes through `set` so that mounted hooks render the new data, without a refetch: the sender has
+          // just fetched it, or patched it and shares its own revalidation if it differs. Live patches like
+          // scoreboard pushes reach every tab anyway, refetching them would multiply the load of a game
+          remoteData.set(message.key, message.data)
+          void boundMutate(message.key, message.data, { revalidate: false }).finally(() =>
+            remoteData.delete(message.key)
+          )
+        } else {
+          const now = Date.now()
+          this.map.set(message.key, { ...this.map.get(message.key), data: message.data })
+          this.meta.set(message.key, { updated: now, accessed: now })
+          schedulePersist()
+        }
+        break
+      case 'delete':
+        this.map.delete(message.key)
+        this.meta.delete(message.key)
+        schedulePersist()
+        void boundMutate?.(message.key)
+        break
+      case 'clear':
+        if (boundMutate) {
+          void boundMutate(() => true, undefined, { revalidate: true })
+        } else {
+          this.map.clear()
+          this.meta.clear()
+          schedulePersist()
+        }
+        break
+    }
+  }
+
+  /**
+   * Allowed and unexpired entries, most recently used first, within the LRU bounds
+   */
+  snapshotEntries(): SnapshotEntry[] {
+    const now = Date.now()
+    const candidates: SnapshotEntry[] = []
+
+    for (const [key, value] of this.map) {
+      const ttl = getTTL(key)
+      const meta = this.meta.get(key)
+      if (ttl === undefined || !meta || meta.updated + ttl < now) continue
+      // skip the in-flight and failed states, only data is worth keeping
+      if (value?.data === undefined) continue
+      candidates.push([key, { data: value.data, _k: value._k }, meta.updated, meta.accessed])
+    }
+
+    candidates.sort((a, b) => b[3] - a[3])
+
+    const result: SnapshotEntry[] = []
+    let bytes = 0
+    for (const entry of candidates.slice(0, MAX_PERSIST_ENTRIES)) {
+      const size = JSON.stringify(entry).length
+      if (bytes + size > MAX_PERSIST_BYTES) continue
+      bytes += size
+      result.push(entry)
+    }
+
+    return result
+  }
+}
+
+// -----------------------------------------
+// Cross-tab synchronisation
+// -----------------------------------------
+
+const SYNC_CHANNEL = 'gzctf-cache-sync'
+const LEADER_LOCK = 'gzctf-cache-leader'
+
+let syncChannel: BroadcastChannel | null = null
+// without Web Locks every tab writes the snapshot, as before
+let isLeader = typeof navigator === 'undefined' || !navigator.locks
+let boundMutate: ScopedMutator | null = null
+
+// data received from other tabs, not to be echoed back when SWR sets it
+const remoteData = new Map<string, any>()
+
+const broadcast = (message: SyncMessage) => {
+  try {
+    syncChannel?.postMessage(message)
+  } catch (e) {
+    console.warn('[cache] broadcast failed', e)
+  }
+}
+
+const broadcastSet = (key: any, data: any) => {
+  if (typeof key !== 'string' || data === undefined) return
+  if (remoteData.has(key) && remoteData.get(key) === data) {
+    remoteData.delete(key)
+    return
   }
+  broadcast({ type: 'set', key, data })
+}
+
+const electLeader = () => {
+  if (isLeader) return
+  void navigator.locks.request(LEADER_LOCK, () => {
+    isLeader = true
+    console.info('[cache] this tab writes the persistent cache now')
+    schedulePersist()
+    // hold the lock until the tab is closed
+    return new Promise<void>(() => {})
+  })
+}
+
+const setupSync = () => {
+  if (syncChannel || typeof BroadcastChannel === 'undefined') return
+  syncChannel = new BroadcastChannel(SYNC_CHANNEL)
+  syncChannel.onmessage = (event: MessageEvent<SyncMessage>) => inMemoryCache.receive(event.data)
+  electLeader()
 }
 
 const inMemoryCache = new PersistentCache()
@@ -92,32 +285,62 @@ let persistTimer: number | null = null
 const textEncoder = new TextEncoder()
 const textDecoder = new TextDecoder()
 
-const openDB = (): Promise<IDBDatabase> => {
+export const openDB = (): Promise<IDBDatabase> => {
   if (!idbSupported) return Promise.reject(new Error('IndexedDB not supported'))
   if (dbPromise) return dbPromise
   dbPromise = new Promise((resolve, reject) => {
-    const req = indexedDB.open(IDB_DB_NAME, 1)
+    const req = indexedDB.open(IDB_DB_NAME, IDB_VERSION)
     req.onupgradeneeded = () => {
       const db = req.result
       if (!db.objectStoreNames.contains(IDB_STORE)) {
         db.createObjectStore(IDB_STORE)
       }
+      if (!db.objectStoreNames.contains(IDB_OUTBOX_STORE)) {
+        db.createObjectStore(IDB_OUTBOX_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(IDB_NOTES_STORE)) {
+        db.createObjectStore(IDB_NOTES_STORE, { keyPath: 'id' }).createIndex('gameId', 'gameId')
+      }
+    }
+    req.onsuccess = () => {
+      const db = req.result
+      // let the newer version in another tab upgrade the database
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
     }
-    req.onsuccess = () => resolve(req.result)
     req.onerror = () => reject(req.error)
   })
   return dbPromise
 }
 
-const encodeMap = (cache: PersistentCache): Uint8Array => {
-  const json = JSON.stringify(cache.snapshotEntries())
-  return gzip(textEncoder.encode(json))
+const serializeSnapshot = (cache: PersistentCache) =>
+  JSON.stringify({ version: CACHE_VERSION, entries: cache.snapshotEntries() } satisfies CacheSnapshot)
+
+/**
+ * Drop snapshots of other builds, legacy formats and expired entries
+ */
+const deserializeSnapshot = (json: string): SnapshotEntry[] => {
+  const snapshot = JSON.parse(json) as CacheSnapshot | unknown[]
+  if (Array.isArray(snapshot) || snapshot?.version !== CACHE_VERSION) {
+    console.info('[cache] discarded snapshot of another version')
+    return []
+  }
+
+  const now = Date.now()
+  return snapshot.entries.filter(([key, , updated]) => {
+    const ttl = getTTL(key)
+    return ttl !== undefined && updated + ttl >= now
+  })
 }
 
-const decodeMap = (bin: BinaryLike): [any, any][] => {
+const encodeMap = (cache: PersistentCache): Uint8Array => gzip(textEncoder.encode(serializeSnapshot(cache)))
+
+const decodeMap = (bin: BinaryLike): SnapshotEntry[] => {
   const u8 = bin instanceof Uint8Array ? bin : new Uint8Array(bin)
-  const json = textDecoder.decode(ungzip(u8))
-  return JSON.parse(json)
+  return deserializeSnapshot(textDecoder.decode(ungzip(u8)))
 }
 
 const fallbackHydrateLocalStorage = () => {
@@ -126,8 +349,7 @@ const fallbackHydrateLocalStorage = () => {
     if (!raw) return
     const decompressed = LZString.decompress(raw)
     if (!decompressed) return
-    const entries: [any, any][] = JSON.parse(decompressed || '[]')
-    inMemoryCache.bulkAdd(entries)
+    inMemoryCache.bulkAdd(deserializeSnapshot(decompressed))
     localStorage.removeItem(LEGACY_CACHE_KEY)
     console.info('[cache] migrated legacy localStorage cache')
   } catch (e) {
@@ -137,7 +359,7 @@ const fallbackHydrateLocalStorage = () => {
 
 const fallbackPersistLocalStorage = () => {
   try {
-    const serialized = JSON.stringify(inMemoryCache.snapshotEntries())
+    const serialized = serializeSnapshot(inMemoryCache)
     const compressed = LZString.compress(serialized)
     localStorage.setItem(LEGACY_CACHE_KEY, compressed)
   } catch (e) {
@@ -146,7 +368,7 @@ const fallbackPersistLocalStorage = () => {
 }
 
 const persistToIDB = async () => {
-  if (!idbSupported || !dirty) return
+  if (!idbSupported || !dirty || !isLeader) return
   dirty = false
   try {
     const db = await openDB()
@@ -204,12 +426,15 @@ const hydrateFromIDB = async () => {
 }
 
 const flushAndFallback = () => {
+  // the leader tab receives every change and writes them
+  if (!isLeader) return
   if (idbSupported) void persistToIDB()
   else fallbackPersistLocalStorage()
 }
 
 const setupPersistenceSideEffects = () => {
   if (typeof window === 'undefined') return
+  setupSync()
   if (!hydrationStarted) void hydrateFromIDB()
   document.addEventListener('visibilitychange', () => {
     if (document.hidden) flushAndFallback()
@@ -229,6 +454,20 @@ export const localCacheProvider = (): Cache<any> => {
   return inMemoryCache
 }
 
+/**
+ * Let changes from other tabs reach the hooks, call it once inside `SWRConfig`
+ */
+export const useCacheSync = () => {
+  const { mutate } = useSWRConfig()
+
+  useEffect(() => {
+    boundMutate = mutate
+    return () => {
+      boundMutate = null
+    }
+  }, [mutate])
+}
+
 export const clearLocalCache = () => {
   ;(async () => {
     try {
@@ -244,6 +483,7 @@ export const clearLocalCache = () => {
       localStorage.removeItem(LEGACY_CACHE_KEY)
     } catch {}
     inMemoryCache.clear()
+    broadcast({ type: 'clear' })
     window.location.reload()
   })()
 }
@@ -0,0 +1,65 @@
+import { mdiAlertCircleOutline, mdiEyeOutline, mdiTarget } from '@mdi/js'
+import { useTranslation } from 'react-i18next'
+
+// -----------------------------------------
+// Work status of the team on the challenges
+// -----------------------------------------
+
+export enum ClaimStatus {
+  Looking = 'Looking',
+  Stuck = 'Stuck',
+  Close = 'Close',
+}
+
+/**
+ * Work status of a team member on a challenge, pushed by the user hub
+ */
+export interface ChallengeClaimModel {
+  challengeId: number
+  userId: string
+  userName?: string | null
+  avatar?: string | null
+  /** null if the member released the challenge */
+  status?: ClaimStatus | null
+  /** in ms */
+  time: number
+}
+
+export type ClaimFilter = 'all' | 'unclaimed' | 'mine' | 'stuck'
+
+export interface ClaimStatusProps {
+  label: string
+  color: string
+  icon: string
+}
+
+export const useClaimStatusMap = () => {
+  const { t } = useTranslation()
+
+  return new Map<ClaimStatus, ClaimStatusProps>([
+    [ClaimStatus.Looking, { label: t('challenge.claim.status.looking'), color: 'blue', icon: mdiEyeOutline }],
+    [ClaimStatus.Stuck, { label: t('challenge.claim.status.stuck'), color: 'red', icon: mdiAlertCircleOutline }],
+    [ClaimStatus.Close, { label: t('challenge.claim.status.close'), color: 'teal', icon: mdiTarget }],
+  ])
+}
+
+/**
+ * Replace the claim of the member on the challenge, a released claim is removed
+ */
+export const applyClaim = (claims: ChallengeClaimModel[], claim: ChallengeClaimModel) => [
+  ...claims.filter((c) => c.challengeId !== claim.challengeId || c.userId !== claim.userId),
+  ...(claim.status ? [claim] : []),
+]
+
+export const matchClaimFilter = (filter: ClaimFilter, claims: ChallengeClaimModel[], userId?: string | null) => {
+  switch (filter) {
+    case 'unclaimed':
+      return claims.length === 0
+    case 'mine':
+      return claims.some((c) => c.userId === userId)
+    case 'stuck':
+      return claims.some((c) => c.status === ClaimStatus.Stuck)
+    default:
+      return true
+  }
+}
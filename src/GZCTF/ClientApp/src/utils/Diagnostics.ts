@@ -0,0 +1,150 @@
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig, isAxiosError, isCancel } from 'axios'
+
+// -----------------------------------------
+// Opt-in diagnostics of the api activity
+// -----------------------------------------
+
+const MAX_RECORDS = 100
+const REDACTED = '[redacted]'
+
+export interface RequestRecord {
+  /** start of the request in ms */
+  time: number
+  method: string
+  /** path with the query, sensitive values are redacted */
+  path: string
+  /** 0 if there is no response */
+  status: number
+  /** in ms */
+  latency: number
+  language?: string
+  /** axios error code, set when the request failed without a response or was aborted */
+  error?: string
+}
+
+type Listener = () => void
+
+let records: RequestRecord[] = []
+let setupDone = false
+let enabled = false
+const listeners = new Set<Listener>()
+const startTimes = new WeakMap<InternalAxiosRequestConfig, number>()
+
+// `code` alone is the verification code, keys like `statusCode` are kept
+const SensitiveKey = /token|passw|pwd|secret|flag|captcha|cookie|authorization|session|^code$|email|phone/i
+const FlagLike = /[\w-]+\{[^{}\s]*\}/g
+const EmailLike = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g
+
+const redactString = (value: string) => value.replace(FlagLike, REDACTED).replace(EmailLike, REDACTED)
+
+/**
+ * Deep copy of the value with tokens, flags, passwords and contact info replaced
+ */
+export const redact = (value: unknown, key?: string): unknown => {
+  if (key && SensitiveKey.test(key) && value !== null && value !== undefined && typeof value !== 'boolean')
+    return REDACTED
+  if (typeof value === 'string') return redactString(value)
+  if (Array.isArray(value)) return value.map((v) => redact(v))
+  if (value && typeof value === 'object')
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]))
+  return value
+}
+
+const formatPath = (config?: InternalAxiosRequestConfig) => {
+  const [path, search] = (config?.url ?? '').split('?')
+  const query = new URLSearchParams(search)
+
+  if (config?.params && typeof config.params === 'object') {
+    Object.entries(config.params).forEach(([k, v]) => {
+      if (v !== undefined && v !== null) query.append(k, String(v))
+    })
+  }
+
+  const redacted = [...query.entries()].map(([k, v]) => `${k}=${redact(v, k)}`).join('&')
+  return redactString(path) + (redacted ? `?${redacted}` : '')
+}
+
+const record = (config: InternalAxiosRequestConfig | undefined, response?: AxiosResponse, error?: string) => {
+  if (!enabled || !config) return
+
+  const start = startTimes.get(config) ?? Date.now()
+  const language = config.headers?.['Accept-Language']
+
+  const entry: RequestRecord = {
+    time: start,
+    method: (config.method ?? 'get').toUpperCase(),
+    path: formatPath(config),
+    status: response?.status ?? 0,
+    latency: Date.now() - start,
+    language: typeof language === 'string' ? language : undefined,
+    error,
+  }
+
+  records = [entry, ...records].slice(0, MAX_RECORDS)
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Only record while the diagnostics are available to the user, disabling drops the records
+ */
+export const setDiagnosticsEnabled = (value: boolean) => {
+  if (enabled === value) return
+  enabled = value
+  if (!enabled) clearRequestRecords()
+}
+
+/**
+ * Keep the last requests of the instance in memory, nothing is sent or stored
+ */
+export const setupDiagnosticsInterceptor = (instance: AxiosInstance) => {
+  if (setupDone) return
+  setupDone = true
+
+  instance.interceptors.request.use((config) => {
+    if (enabled) startTimes.set(config, Date.now())
+    return config
+  })
+
+  instance.interceptors.response.use(
+    (response) => {
+      record(response.config, response)
+      return response
+    },
+    (err) => {
+      if (isCancel(err)) {
+        record(err.config, undefined, 'ERR_CANCELED')
+      } else if (isAxiosError(err)) {
+        record(err.config, err.response, err.response ? undefined : (err.code ?? 'ERR_NETWORK'))
+      }
+      return Promise.reject(err)
+    }
+  )
+}
+
+export const getRequestRecords = () => records
+
+export const clearRequestRecords = () => {
+  records = []
+  listeners.forEach((listener) => listener())
+}
+
+export const subscribeRequestRecords = (listener: Listener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Build the exported bundle, everything passes through `redact`
+ */
+export const buildDiagnosticsBundle = (extra: Record<string, unknown>) =>
+  redact({
+    generatedAt: new Date().toISOString(),
+    location: window.location.pathname,
+    userAgent: navigator.userAgent,
+    languages: navigator.languages,
+    online: navigator.onLine,
+    ...extra,
+    requests: records,
+  })
@@ -0,0 +1,103 @@
+import { IDB_NOTES_STORE, openDB } from '@Utils/Cache'
+
+// -----------------------------------------
+// Challenge notes kept in the browser
+// -----------------------------------------
+
+export type NoteScope = 'private' | 'team'
+
+/**
+ * Scratchpad of a challenge shared by the members of a team, pushed by the user hub
+ */
+export interface ScratchpadModel {
+  challengeId: number
+  content: string
+  /** the last editor */
+  userName?: string | null
+  /** in ms */
+  time: number
+}
+
+export interface ChallengeNote {
+  id: string
+  scope: NoteScope
+  gameId: number
+  challengeId: number
+  challengeTitle: string
+  category: string
+  content: string
+  updatedAt: number
+}
+
+export interface NotesBundleHeaders {
+  private: string
+  team: string
+}
+
+/** the same as `Limits.MaxScratchpadLength` of the server */
+export const MAX_SCRATCHPAD_LENGTH = 16384
+
+export const noteId = (scope: NoteScope, gameId: number, challengeId: number) => `${scope}_${gameId}_${challengeId}`
+
+const withStore = async <T = unknown>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  try {
+    const db = await openDB()
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(IDB_NOTES_STORE, mode)
+      const req = action(tx.objectStore(IDB_NOTES_STORE))
+      tx.oncomplete = () => resolve(req.result)
+      tx.onabort = () => reject(tx.error)
+    })
+  } catch (e) {
+    console.warn('[notes] IndexedDB unavailable', e)
+    return null
+  }
+}
+
+export const getNote = async (scope: NoteScope, gameId: number, challengeId: number) =>
+  (await withStore<ChallengeNote | undefined>('readonly', (store) => store.get(noteId(scope, gameId, challengeId)))) ??
+  null
+
+/**
+ * Store a note, empty notes are removed
+ */
+export const saveNote = (note: Omit<ChallengeNote, 'id'>) => {
+  const id = noteId(note.scope, note.gameId, note.challengeId)
+  return note.content.trim()
+    ? withStore('readwrite', (store) => store.put({ ...note, id }))
+    : withStore('readwrite', (store) => store.delete(id))
+}
+
+export const getGameNotes = async (gameId: number) =>
+  (await withStore<ChallengeNote[]>('readonly', (store) => store.index('gameId').getAll(gameId))) ?? []
+
+/**
+ * Drop the notes of every game, they belong to the user signed in on this browser
+ */
+export const clearNotes = () => withStore('readwrite', (store) => store.clear())
+
+/**
+ * All notes of a game as one Markdown document, grouped by challenge,
+ * team scratchpads are the copies last seen by this browser
+ */
+export const toNotesBundle = (title: string, notes: ChallengeNote[], headers: NotesBundleHeaders) => {
+  const challenges = new Map<number, ChallengeNote[]>()
+  notes
+    .filter((note) => note.content.trim())
+    .sort((a, b) => a.category.localeCompare(b.category) || a.challengeTitle.localeCompare(b.challengeTitle))
+    .forEach((note) => challenges.set(note.challengeId, [...(challenges.get(note.challengeId) ?? []), note]))
+
+  const sections = [...challenges.values()].map((list) => {
+    const { category, challengeTitle } = list[0]
+    const parts = (['private', 'team'] as const).flatMap((scope) => {
+      const note = list.find((n) => n.scope === scope)
+      return note ? [`### ${headers[scope]}\n\n${note.content.trim()}`] : []
+    })
+    return [`## [${category}] ${challengeTitle}`, ...parts].join('\n\n')
+  })
+
+  return [`# ${title}`, ...sections].join('\n\n') + '\n'
+}
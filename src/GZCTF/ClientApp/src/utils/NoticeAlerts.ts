@@ -0,0 +1,106 @@
+import { NoticeType } from '@Api'
+
+// -----------------------------------------
+// Desktop notifications, sounds and unread count of game notices
+// -----------------------------------------
+
+export const AlertNoticeTypes = [
+  NoticeType.Normal,
+  NoticeType.NewChallenge,
+  NoticeType.NewHint,
+  NoticeType.FirstBlood,
+] as const
+
+export interface NoticeAlertSettings {
+  desktop: boolean
+  sound: boolean
+  /** notice types that raise alerts */
+  types: NoticeType[]
+  /** no desktop notification or sound while the page has focus */
+  muteOnFocus: boolean
+  /** count notices received in the background in the page title */
+  unreadBadge: boolean
+}
+
+export const DefaultNoticeAlertSettings: NoticeAlertSettings = {
+  desktop: false,
+  sound: false,
+  types: [...AlertNoticeTypes],
+  muteOnFocus: true,
+  unreadBadge: false,
+}
+
+// notes of each cue in Hz, played one after another
+const NoticeTones: Partial<Record<NoticeType, number[]>> = {
+  [NoticeType.Normal]: [660, 660],
+  [NoticeType.NewChallenge]: [523, 784],
+  [NoticeType.NewHint]: [784, 659],
+  [NoticeType.FirstBlood]: [523, 659, 784],
+}
+
+const TONE_LENGTH = 0.15
+
+let audioContext: AudioContext | null = null
+
+export const playNoticeSound = (type: NoticeType) => {
+  const tones = NoticeTones[type]
+  if (!tones || typeof AudioContext === 'undefined') return
+
+  audioContext ??= new AudioContext()
+  const ctx = audioContext
+  // browsers suspend audio until the user interacts with the page
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {})
+
+  tones.forEach((frequency, idx) => {
+    const start = ctx.currentTime + idx * TONE_LENGTH
+    const oscillator = ctx.createOscillator()
+    const gain = ctx.createGain()
+
+    oscillator.type = 'sine'
+    oscillator.frequency.value = frequency
+    gain.gain.setValueAtTime(0.15, start)
+    gain.gain.exponentialRampToValueAtTime(0.001, start + TONE_LENGTH)
+
+    oscillator.connect(gain).connect(ctx.destination)
+    oscillator.start(start)
+    oscillator.stop(start + TONE_LENGTH)
+  })
+}
+
+export const isDesktopNotificationSupported = () => typeof Notification !== 'undefined'
+
+export const showDesktopNotification = (title: string, body: string, tag: string) => {
+  if (!isDesktopNotificationSupported() || Notification.permission !== 'granted') return
+
+  const notification = new Notification(title, { body, tag, icon: '/favicon.webp' })
+  notification.onclick = () => {
+    window.focus()
+    notification.close()
+  }
+}
+
+export const isPageFocused = () => document.visibilityState === 'visible' && document.hasFocus()
+
+type Listener = () => void
+
+let unread = 0
+const listeners = new Set<Listener>()
+
+const setUnread = (value: number) => {
+  if (unread === value) return
+  unread = value
+  listeners.forEach((listener) => listener())
+}
+
+export const addUnreadNotice = () => setUnread(unread + 1)
+
+export const clearUnreadNotices = () => setUnread(0)
+
+export const getUnreadNotices = () => unread
+
+export const subscribeUnreadNotices = (listener: Listener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
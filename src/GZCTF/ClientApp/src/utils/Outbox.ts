@@ -0,0 +1,272 @@
+import { isAxiosError } from 'axios'
+import { IDB_OUTBOX_STORE, openDB } from '@Utils/Cache'
+import { getRateLimitUntil, isRateLimitError } from '@Utils/RateLimit'
+import api, { AnswerResult } from '@Api'
+
+// -----------------------------------------
+// Persistent outbox for flag submissions
+// -----------------------------------------
+
+const OUTBOX_LOCK = 'gzctf-outbox'
+const BACKOFF_BASE = 2000
+const BACKOFF_MAX = 60 * 1000
+const STATUS_INTERVAL = 1000
+
+export interface PendingSubmission {
+  id: string
+  /** the user who queued the flag, the queue is shared by every account of the browser */
+  userId: string
+  gameId: number
+  challengeId: number
+  challengeTitle: string
+  /** the flag as sent to the api, encrypted if the platform has a public key */
+  flag: string
+  createdAt: number
+  /** failed attempts in a row */
+  attempts: number
+  nextRetryAt: number
+  /** set once the flag is accepted by the api, then the status is polled */
+  submitId?: number
+}
+
+export interface SettledSubmission {
+  submission: PendingSubmission
+  result?: AnswerResult
+  error?: unknown
+}
+
+type OutboxListener = () => void
+type SettledListener = (settled: SettledSubmission) => void
+
+let entries: PendingSubmission[] = []
+let loaded: Promise<void> | null = null
+let processing = false
+let processTimer: number | null = null
+let setupDone = false
+let retryNow = false
+let currentUser: string | null = null
+
+const listeners = new Set<OutboxListener>()
+const settledListeners = new Set<SettledListener>()
+
+/**
+ * Submissions that fail without a response or with a server error are worth retrying,
+ * anything else is a final answer from the api
+ */
+export const isRetryableError = (err: unknown) =>
+  isAxiosError(err) && (!err.response || err.response.status >= 500 || err.response.status === 408)
+
+const backoff = (attempts: number) => Math.min(BACKOFF_BASE * 2 ** attempts, BACKOFF_MAX) * (0.75 + Math.random() * 0.5)
+
+const isOwn = (entry: PendingSubmission) => currentUser !== null && entry.userId === currentUser
+
+const setEntries = (next: PendingSubmission[]) => {
+  entries = next
+  listeners.forEach((listener) => listener())
+}
+
+const withStore = async <T = unknown>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  try {
+    const db = await openDB()
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(IDB_OUTBOX_STORE, mode)
+      const req = action(tx.objectStore(IDB_OUTBOX_STORE))
+      tx.oncomplete = () => resolve(req.result)
+      tx.onabort = () => reject(tx.error)
+    })
+  } catch (e) {
+    // keep working in memory, the queue is only lost on reload
+    console.warn('[outbox] IndexedDB unavailable', e)
+    return null
+  }
+}
+
+const readAll = () => withStore<PendingSubmission[]>('readonly', (store) => store.getAll())
+const putEntry = (entry: PendingSubmission) => withStore('readwrite', (store) => store.put(entry))
+const deleteEntry = (id: string) => withStore('readwrite', (store) => store.delete(id))
+
+const reload = async () => {
+  const stored = await readAll()
+  if (stored) setEntries(stored.sort((a, b) => a.createdAt - b.createdAt))
+}
+
+const update = async (id: string, patch: Partial<PendingSubmission>) => {
+  const entry = entries.find((e) => e.id === id)
+  if (!entry) return
+  const next = { ...entry, ...patch }
+  setEntries(entries.map((e) => (e.id === id ? next : e)))
+  await putEntry(next)
+}
+
+const settle = async (settled: SettledSubmission) => {
+  setEntries(entries.filter((e) => e.id !== settled.submission.id))
+  await deleteEntry(settled.submission.id)
+  settledListeners.forEach((listener) => listener(settled))
+}
+
+const step = async (entry: PendingSubmission) => {
+  try {
+    if (entry.submitId === undefined) {
+      const res = await api.game.gameSubmit(entry.gameId, entry.challengeId, { flag: entry.flag })
+      await update(entry.id, { submitId: res.data, attempts: 0, nextRetryAt: Date.now() + STATUS_INTERVAL })
+      return
+    }
+
+    const res = await api.game.gameStatus(entry.gameId, entry.challengeId, entry.submitId)
+    if (res.data === AnswerResult.FlagSubmitted) {
+      await update(entry.id, { attempts: 0, nextRetryAt: Date.now() + STATUS_INTERVAL })
+    } else {
+      await settle({ submission: entry, result: res.data })
+    }
+  } catch (err) {
+    if (isRetryableError(err) || isRateLimitError(err)) {
+      await update(entry.id, {
+        attempts: entry.attempts + 1,
+        // never retry within the rate limit window
+        nextRetryAt: Math.max(Date.now() + backoff(entry.attempts), getRateLimitUntil('submit')),
+      })
+    } else {
+      await settle({ submission: entry, error: err })
+    }
+  }
+}
+
+const scheduleProcess = () => {
+  if (processTimer !== null) {
+    window.clearTimeout(processTimer)
+    processTimer = null
+  }
+  const own = entries.filter(isOwn)
+  // the online event restarts the queue
+  if (own.length === 0 || !navigator.onLine) return
+
+  const next = Math.min(...own.map((e) => e.nextRetryAt))
+  processTimer = window.setTimeout(
+    () => {
+      processTimer = null
+      void processOutbox()
+    },
+    Math.max(STATUS_INTERVAL, next - Date.now())
+  )
+}
+
+const runDue = async () => {
+  // another tab may have changed the queue since the last run
+  await reload()
+
+  const now = Date.now()
+  const force = retryNow
+  retryNow = false
+
+  const due = entries.filter((e) => isOwn(e) && (e.nextRetryAt <= now || (force && e.submitId === undefined)))
+
+  for (const entry of due) {
+    if (!navigator.onLine) break
+    await step(entry)
+  }
+}
+
+/**
+ * Send the submissions whose retry time has come, only one tab works on the queue at a time
+ */
+export const processOutbox = async () => {
+  if (processing) return
+  processing = true
+
+  try {
+    await loaded
+    if (navigator.locks) {
+      await navigator.locks.request(OUTBOX_LOCK, { ifAvailable: true }, (lock) => (lock ? runDue() : reload()))
+    } else {
+      await runDue()
+    }
+  } catch (e) {
+    console.warn('[outbox] process failed', e)
+  } finally {
+    processing = false
+    scheduleProcess()
+  }
+}
+
+export const setupOutbox = () => {
+  if (setupDone || typeof window === 'undefined') return
+  setupDone = true
+
+  loaded = reload()
+  void processOutbox()
+
+  window.addEventListener('online', () => {
+    // retry right away instead of waiting for the backoff
+    retryNow = true
+    void processOutbox()
+  })
+}
+
+/**
+ * Only the submissions of the signed in user are sent, `null` pauses the queue
+ */
+export const setOutboxUser = (userId: string | null) => {
+  if (currentUser === userId) return
+  currentUser = userId
+  void processOutbox()
+}
+
+/**
+ * Drop every queued submission of the browser, on logout nobody else may send them
+ */
+export const clearOutbox = async () => {
+  currentUser = null
+  setEntries([])
+  await withStore('readwrite', (store) => store.clear())
+  scheduleProcess()
+}
+
+/**
+ * Queue a submission for the signed in user, pass `submitId` if the flag reached the api but its status is unknown
+ */
+export const enqueueSubmission = async (
+  submission: Pick<PendingSubmission, 'gameId' | 'challengeId' | 'challengeTitle' | 'flag' | 'submitId'>
+) => {
+  setupOutbox()
+  await loaded
+
+  if (currentUser === null) throw new Error('[outbox] no signed in user')
+
+  const entry: PendingSubmission = {
+    ...submission,
+    userId: currentUser,
+    // crypto.randomUUID is missing outside of secure contexts
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextRetryAt: Date.now() + BACKOFF_BASE,
+  }
+
+  setEntries([...entries, entry])
+  await putEntry(entry)
+  scheduleProcess()
+}
+
+export const discardSubmission = async (id: string) => {
+  setEntries(entries.filter((e) => e.id !== id))
+  await deleteEntry(id)
+}
+
+export const getOutboxEntries = () => entries
+
+export const subscribeOutbox = (listener: OutboxListener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const subscribeSettled = (listener: SettledListener) => {
+  settledListeners.add(listener)
+  return () => {
+    settledListeners.delete(listener)
+  }
+}
@@ -0,0 +1,108 @@
+import { AxiosInstance, InternalAxiosRequestConfig, isAxiosError } from 'axios'
+import { useEffect, useState, useSyncExternalStore } from 'react'
+
+// -----------------------------------------
+// Client-side awareness of 429 responses
+// -----------------------------------------
+
+// the backend rejects with one minute by default
+const DEFAULT_RETRY_AFTER = 60
+
+/**
+ * Requests sharing a rate limit policy on the backend, other requests are limited by path
+ */
+export type RateLimitScope = 'submit' | 'container'
+
+const ScopeRules: [scope: RateLimitScope, method: string, pattern: RegExp][] = [
+  ['submit', 'post', /^\/api\/game\/\d+\/challenges\/\d+$/],
+  ['container', 'post', /^\/api\/game\/\d+\/container\/\d+(\/extend)?$/],
+]
+
+type Listener = () => void
+
+// scope or `METHOD path` -> end of the window in ms
+let limits: Record<string, number> = {}
+const listeners = new Set<Listener>()
+
+const getScope = (config?: InternalAxiosRequestConfig) => {
+  const method = (config?.method ?? 'get').toLowerCase()
+  const path = (config?.url ?? '').split('?')[0]
+  const rule = ScopeRules.find(([, m, pattern]) => m === method && pattern.test(path))
+  return rule ? rule[0] : `${method.toUpperCase()} ${path}`
+}
+
+/**
+ * Seconds to wait from a `Retry-After` header, which is either seconds or an HTTP date
+ */
+export const parseRetryAfter = (value: unknown) => {
+  if (typeof value !== 'string' && typeof value !== 'number') return DEFAULT_RETRY_AFTER
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER : Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+export const isRateLimitError = (err: unknown) => isAxiosError(err) && err.response?.status === 429
+
+const setLimit = (scope: string, until: number) => {
+  limits = { ...limits, [scope]: Math.max(limits[scope] ?? 0, until) }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * End of the current window of the scope in ms, 0 if requests are allowed
+ */
+export const getRateLimitUntil = (scope: string) => {
+  const until = limits[scope] ?? 0
+  return until > Date.now() ? until : 0
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Record the window of 429 responses and hold the requests of a limited scope until it passes
+ */
+export const setupRateLimitInterceptor = (instance: AxiosInstance) => {
+  instance.interceptors.request.use(async (config) => {
+    const until = getRateLimitUntil(getScope(config))
+    if (until) await sleep(until - Date.now())
+    return config
+  })
+
+  instance.interceptors.response.use(undefined, (err) => {
+    if (isRateLimitError(err)) {
+      const seconds = parseRetryAfter(err.response?.headers['retry-after'])
+      setLimit(getScope(err.config), Date.now() + seconds * 1000)
+    }
+    return Promise.reject(err)
+  })
+}
+
+const subscribe = (listener: Listener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Seconds left in the rate limit window of the scope, 0 if requests are allowed
+ */
+export const useRateLimit = (scope: RateLimitScope) => {
+  const until = useSyncExternalStore(subscribe, () => limits[scope] ?? 0)
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (until <= Date.now()) return
+    setNow(Date.now())
+    const interval = setInterval(() => {
+      setNow(Date.now())
+      if (Date.now() >= until) clearInterval(interval)
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [until])
+
+  return until > now ? Math.ceil((until - now) / 1000) : 0
+}
@@ -0,0 +1,464 @@
+import { BloodBonus, BloodsTypes } from '@Utils/Shared'
+import { ChallengeItem, ScoreboardItem, ScoreboardModel, SubmissionType, TopTimeLine } from '@Api'
+
+// -----------------------------------------
+// Local updates of the cached scoreboard
+// -----------------------------------------
+
+const TIMELINE_TEAMS = 10
+
+/**
+ * A solve pushed by the user hub, only the first solve of a team is sent
+ */
+export interface ScoreboardUpdate {
+  teamId: number
+  challengeId: number
+  /** blood types only if the challenge grants blood bonus */
+  type: SubmissionType
+  userName?: string | null
+  /** in ms */
+  time: number
+  /** current score of the challenge after this solve, without blood bonus */
+  challengeScore: number
+}
+
+/**
+ * Score of a dynamic challenge after `count` solves, the same as the server
+ */
+export const dynamicScore = (originalScore: number, difficulty: number, minScoreRate: number, count: number) =>
+  count <= 1
+    ? originalScore
+    : Math.floor(originalScore * (minScoreRate + (1 - minScoreRate) * Math.exp((1 - count) / difficulty)))
+
+const roundHalfEven = (value: number) => {
+  const floor = Math.floor(value)
+  const diff = value - floor
+  return diff > 0.5 || (diff === 0.5 && floor % 2 !== 0) ? floor + 1 : floor
+}
+
+/**
+ * Score of a solve with blood bonus, the same as the server: a float32 factor and `Convert.ToInt32`
+ */
+const scoreOf = (bonus: BloodBonus, challengeScore: number, type?: SubmissionType) => {
+  const num = bonus.getBonusNum(type ?? SubmissionType.Normal)
+  if (num === 0) return challengeScore
+
+  const factor = Math.fround(Math.fround(num / BloodBonus.base) + 1)
+  return roundHalfEven(Math.fround(challengeScore * factor))
+}
+
+/**
+ * Sort the items by score and last submission like the server, then assign ranks
+ */
+export const rankScoreboardItems = (items: ScoreboardItem[]) => {
+  const sorted = [...items].sort(
+    (a, b) => (b.score ?? 0) - (a.score ?? 0) || (a.lastSubmissionTime ?? 0) - (b.lastSubmissionTime ?? 0)
+  )
+
+  const divisionRanks = new Map<string, number>()
+  return sorted.map((item, i) => {
+    if (!item.division) return { ...item, rank: i + 1, divisionRank: null }
+    const divisionRank = (divisionRanks.get(item.division) ?? 0) + 1
+    divisionRanks.set(item.division, divisionRank)
+    return { ...item, rank: i + 1, divisionRank }
+  })
+}
+
+/**
+ * Score over time of a team, its solves must be on the item
+ */
+export const toTimeLine = (item: ScoreboardItem): TopTimeLine => {
+  let score = 0
+  return {
+    id: item.id,
+    name: item.name,
+    items: [...(item.solvedChallenges ?? [])]
+      .sort((a, b) => (a.time ?? 0) - (b.time ?? 0))
+      .map((c) => ({ time: c.time, score: (score += c.score ?? 0) })),
+  }
+}
+
+/**
+ * Top timelines of all teams and of each division, the items must be ranked
+ */
+export const buildTimeLines = (items: ScoreboardItem[]) => {
+  const timeLines: Record<string, TopTimeLine[]> = { all: [] }
+
+  items.forEach((item) => {
+    if (item.rank! <= TIMELINE_TEAMS) timeLines.all.push(toTimeLine(item))
+    if (item.division && item.divisionRank! <= TIMELINE_TEAMS)
+      timeLines[item.division] = [...(timeLines[item.division] ?? []), toTimeLine(item)]
+  })
+
+  return timeLines
+}
+
+/**
+ * Apply a solve to the scoreboard, solves already on the board and teams hidden from it are ignored.
+ * Returns null if the challenge is unknown or the blood does not follow the local bloods,
+ * the board should be fetched again then.
+ */
+export const applyScoreboardUpdate = (board: ScoreboardModel, update: ScoreboardUpdate): ScoreboardModel | null => {
+  const category = Object.entries(board.challenges ?? {}).find(([, list]) =>
+    list.some((c) => c.id === update.challengeId)
+  )?.[0]
+  const team = board.items?.find((item) => item.id === update.teamId)
+
+  if (!category) return null
+  if (!team || team.solvedChallenges?.some((c) => c.id === update.challengeId)) return board
+
+  const bonus = new BloodBonus(board.bloodBonus)
+  const challenge = board.challenges![category].find((c) => c.id === update.challengeId)!
+  const bloods = challenge.bloods ?? []
+  const type = update.type
+
+  // a missed solve, or a blood taken by a team hidden from the board
+  const bloodIndex = BloodsTypes.indexOf(type)
+  if (bloodIndex >= 0 && bloodIndex !== bloods.length) return null
+
+  const solve: ChallengeItem = {
+    id: update.challengeId,
+    score: 0,
+    type,
+    userName: update.userName,
+    time: update.time,
+  }
+
+  // the challenge score decays with solves, so every solver of it changes
+  const items = board.items!.map((item) => {
+    const solved = item.id === team.id ? [...(item.solvedChallenges ?? []), solve] : item.solvedChallenges
+    if (item.id !== team.id && !solved?.some((c) => c.id === update.challengeId)) return item
+
+    const solvedChallenges = solved!.map((c) =>
+      c.id === update.challengeId ? { ...c, score: scoreOf(bonus, update.challengeScore, c.type) } : c
+    )
+
+    return {
+      ...item,
+      solvedChallenges,
+      solvedCount: solvedChallenges.length,
+      score: solvedChallenges.reduce((sum, c) => sum + (c.score ?? 0), 0),
+      lastSubmissionTime: item.id === team.id ? update.time : item.lastSubmissionTime,
+    }
+  })
+
+  const ranked = rankScoreboardItems(items)
+
+  return {
+    ...board,
+    updateTimeUtc: Date.now(),
+    items: ranked,
+    timeLines: buildTimeLines(ranked),
+    challenges: {
+      ...board.challenges,
+      [category]: board.challenges![category].map((c) =>
+        c.id !== update.challengeId
+          ? c
+          : {
+              ...c,
+              score: update.challengeScore,
+              solved: (c.solved ?? 0) + 1,
+              bloods:
+                type === SubmissionType.Normal
+                  ? bloods
+                  : [...bloods, { id: team.id, name: team.name, avatar: team.avatar, submitTimeUtc: update.time }],
+            }
+      ),
+    },
+  }
+}
+
+// -----------------------------------------
+// Frozen scoreboard and its reveal
+// -----------------------------------------
+
+export const solveKey = (teamId: number, challengeId: number) => `${teamId}-${challengeId}`
+
+export interface FrozenScoreboard {
+  board: ScoreboardModel
+  /** hidden solves of each team, oldest first */
+  pending: Map<number, ChallengeItem[]>
+}
+
+/**
+ * The board as of `freeze`, later solves are pending until their key is revealed.
+ * Solves keep their final score, so the board ends up the same as the real one.
+ */
+export const freezeScoreboard = (board: ScoreboardModel, freeze: number, revealed: Set<string>): FrozenScoreboard => {
+  const pending = new Map<number, ChallengeItem[]>()
+  const visible = (teamId: number, challengeId: number, time?: number) =>
+    (time ?? 0) <= freeze || revealed.has(solveKey(teamId, challengeId))
+
+  const items = (board.items ?? []).map((item) => {
+    const solves = [...(item.solvedChallenges ?? [])].sort((a, b) => (a.time ?? 0) - (b.time ?? 0))
+    const shown = solves.filter((c) => visible(item.id!, c.id!, c.time))
+    const hidden = solves.filter((c) => !visible(item.id!, c.id!, c.time))
+
+    if (hidden.length === 0) return item
+    pending.set(item.id!, hidden)
+
+    return {
+      ...item,
+      solvedChallenges: shown,
+      solvedCount: shown.length,
+      score: shown.reduce((sum, c) => sum + (c.score ?? 0), 0),
+      lastSubmissionTime: shown.at(-1)?.time ?? item.lastSubmissionTime,
+    }
+  })
+
+  const ranked = rankScoreboardItems(items)
+  const solvedCount = new Map<number, number>()
+  ranked.forEach((item) =>
+    item.solvedChallenges?.forEach((c) => solvedCount.set(c.id!, (solvedCount.get(c.id!) ?? 0) + 1))
+  )
+
+  return {
+    pending,
+    board: {
+      ...board,
+      items: ranked,
+      timeLines: buildTimeLines(ranked),
+      challenges: Object.fromEntries(
+        Object.entries(board.challenges ?? {}).map(([category, list]) => [
+          category,
+          list.map((c) => ({
+            ...c,
+            solved: solvedCount.get(c.id!) ?? 0,
+            bloods: c.bloods?.filter((b) => visible(b.id!, c.id!, b.submitTimeUtc ?? undefined)),
+          })),
+        ])
+      ),
+    },
+  }
+}
+
+/**
+ * The next solve to reveal: the oldest pending solve of the lowest ranked team with any
+ */
+export const nextReveal = ({ board, pending }: FrozenScoreboard) => {
+  const items = board.items ?? []
+  for (let i = items.length - 1; i >= 0; i--) {
+    const solve = pending.get(items[i].id!)?.[0]
+    if (solve) return { team: items[i], solve }
+  }
+  return null
+}
+
+// -----------------------------------------
+// Replay of the scoreboard
+// -----------------------------------------
+
+/**
+ * Rebuild the board as it was at `time` from the solve times,
+ * challenges without scoring parameters keep their current score
+ */
+export const replayScoreboard = (board: ScoreboardModel, time: number): ScoreboardModel => {
+  const bonus = new BloodBonus(board.bloodBonus)
+  const challenges = Object.values(board.challenges ?? {}).flat()
+
+  const solvedCount = new Map<number, number>()
+  board.items?.forEach((item) =>
+    item.solvedChallenges?.forEach((c) => {
+      if ((c.time ?? 0) <= time) solvedCount.set(c.id!, (solvedCount.get(c.id!) ?? 0) + 1)
+    })
+  )
+
+  const scores = new Map(
+    challenges.map((c) => [
+      c.id!,
+      c.difficulty && c.originalScore
+        ? dynamicScore(c.originalScore, c.difficulty, c.minScoreRate ?? 0, solvedCount.get(c.id!) ?? 0)
+        : (c.score ?? 0),
+    ])
+  )
+
+  const items = (board.items ?? []).map((item) => {
+    const solvedChallenges = (item.solvedChallenges ?? [])
+      .filter((c) => (c.time ?? 0) <= time)
+      .sort((a, b) => (a.time ?? 0) - (b.time ?? 0))
+      .map((c) => ({ ...c, score: scoreOf(bonus, scores.get(c.id!) ?? 0, c.type) }))
+
+    return {
+      ...item,
+      solvedChallenges,
+      solvedCount: solvedChallenges.length,
+      score: solvedChallenges.reduce((sum, c) => sum + (c.score ?? 0), 0),
+      lastSubmissionTime: solvedChallenges.at(-1)?.time ?? item.lastSubmissionTime,
+    }
+  })
+
+  const ranked = rankScoreboardItems(items)
+
+  return {
+    ...board,
+    updateTimeUtc: time,
+    items: ranked,
+    timeLines: buildTimeLines(ranked),
+    challenges: Object.fromEntries(
+      Object.entries(board.challenges ?? {}).map(([category, list]) => [
+        category,
+        list.map((c) => ({
+          ...c,
+          score: scores.get(c.id!),
+          solved: solvedCount.get(c.id!) ?? 0,
+          bloods: c.bloods?.filter((b) => (b.submitTimeUtc ?? 0) <= time),
+        })),
+      ])
+    ),
+  }
+}
+
+// -----------------------------------------
+// Exports generated in the browser
+// -----------------------------------------
+
+/**
+ * The teams of the division, `all` for every team
+ */
+export const divisionItems = (board: ScoreboardModel, division: string) =>
+  (board.items ?? []).filter((item) => division === 'all' || item.division === division)
+
+const rankOf = (item: ScoreboardItem, division: string) =>
+  division === 'all' ? item.rank : (item.divisionRank ?? item.rank)
+
+/**
+ * The standings format accepted by CTFtime
+ */
+export const toCtftimeJson = (board: ScoreboardModel, division: string) =>
+  JSON.stringify(
+    {
+      standings: divisionItems(board, division).map((item) => ({
+        pos: rankOf(item, division),
+        team: item.name,
+        score: item.score,
+      })),
+    },
+    null,
+    2
+  )
+
+const csvField = (value: string | number | null | undefined) => {
+  const text = `${value ?? ''}`
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+export interface ScoreboardExportHeaders {
+  rank: string
+  divisionRank: string
+  team: string
+  division: string
+  score: string
+  solved: string
+  lastSubmission: string
+}
+
+/**
+ * One row per team, with the points of each challenge
+ */
+export const toCsv = (board: ScoreboardModel, division: string, headers: ScoreboardExportHeaders) => {
+  const challenges = Object.values(board.challenges ?? {}).flat()
+
+  const rows = divisionItems(board, division).map((item) => {
+    const solved = new Map(item.solvedChallenges?.map((c) => [c.id, c.score]))
+    return [
+      item.rank,
+      item.divisionRank,
+      item.name,
+      item.division,
+      item.score,
+      item.solvedCount,
+      item.lastSubmissionTime ? new Date(item.lastSubmissionTime).toISOString() : '',
+      ...challenges.map((c) => solved.get(c.id)),
+    ]
+  })
+
+  const head = [
+    headers.rank,
+    headers.divisionRank,
+    headers.team,
+    headers.division,
+    headers.score,
+    headers.solved,
+    headers.lastSubmission,
+    ...challenges.map((c) => c.title),
+  ]
+
+  // the BOM makes spreadsheet applications read it as UTF-8
+  return '\ufeff' + [head, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n')
+}
+
+const escapeHtml = (value: string | number | null | undefined) =>
+  `${value ?? ''}`.replace(
+    /[&<>"']/g,
+    (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!
+  )
+
+const SolveMarks: Partial<Record<SubmissionType, string>> = {
+  [SubmissionType.FirstBlood]: '🥇',
+  [SubmissionType.SecondBlood]: '🥈',
+  [SubmissionType.ThirdBlood]: '🥉',
+}
+
+/**
+ * A single page without any external resource, so the board can be archived
+ */
+export const toStaticHtml = (
+  board: ScoreboardModel,
+  division: string,
+  title: string,
+  headers: ScoreboardExportHeaders
+) => {
+  const categories = Object.entries(board.challenges ?? {})
+  const challenges = categories.flatMap(([, list]) => list)
+  const heading = division === 'all' ? title : `${title} - ${division}`
+
+  const rows = divisionItems(board, division).map((item) => {
+    const solved = new Map(item.solvedChallenges?.map((c) => [c.id, c]))
+    const cells = challenges.map((c) => {
+      const solve = solved.get(c.id)
+      if (!solve) return '<td></td>'
+      const mark = SolveMarks[solve.type ?? SubmissionType.Normal] ?? '✓'
+      return `<td class="solve" title="${escapeHtml(`${c.title} +${solve.score}`)}">${mark}</td>`
+    })
+
+    return `<tr><td>${rankOf(item, division)}</td><td class="team">${escapeHtml(item.name)}<small>${escapeHtml(item.division)}</small></td><td>${item.solvedCount}</td><td>${item.score}</td>${cells.join('')}</tr>`
+  })
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(heading)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1a1b1e; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { border: 1px solid #dee2e6; padding: 4px 8px; text-align: center; white-space: nowrap; }
+thead th { background: #f1f3f5; }
+td.team { text-align: left; font-weight: 600; }
+td.team small { display: block; color: #868e96; font-weight: 400; }
+td.solve { background: #ebfbee; }
+@media (prefers-color-scheme: dark) {
+  body { background: #1a1b1e; color: #c1c2c5; }
+  th, td { border-color: #373a40; }
+  thead th { background: #25262b; }
+  td.solve { background: #1b3326; }
+}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(heading)}</h1>
+<p>${escapeHtml(new Date(board.updateTimeUtc).toLocaleString())}</p>
+<table>
+<thead>
+<tr><th colspan="4"></th>${categories.map(([category, list]) => `<th colspan="${list.length}">${escapeHtml(category)}</th>`).join('')}</tr>
+<tr><th>${escapeHtml(division === 'all' ? headers.rank : headers.divisionRank)}</th><th>${escapeHtml(headers.team)}</th><th>${escapeHtml(headers.solved)}</th><th>${escapeHtml(headers.score)}</th>${challenges.map((c) => `<th>${escapeHtml(c.title)}</th>`).join('')}</tr>
+</thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
@@ -456,6 +456,12 @@ export const getProxyUrl = (guid: string, isPreview: boolean = false) => {
   return `${protocol}//${window.location.host}/${api}/${guid}`
 }
 
+/**
+ * Hash opening a challenge on the challenge page, e.g. `#12-Baby-RSA`
+ */
+export const challengeHash = (id: number, title?: string | null) =>
+  `#${id}-${encodeURIComponent(title?.replace(/ /g, '-') ?? '')}`
+
 export const HunamizeSize = (size: number) => {
   if (size < 1024) {
     return `${size} B`
@@ -0,0 +1,310 @@
+import {
+  BasicGameInfoModel,
+  Blood,
+  ChallengeCategory,
+  ChallengeDetailModel,
+  ChallengeInfo,
+  ChallengeItem,
+  ChallengeType,
+  ClientConfig,
+  ContainerPortMappingType,
+  DetailedGameInfoModel,
+  GameNotice,
+  LogMessageModel,
+  NoticeType,
+  ParticipationStatus,
+  PostDetailModel,
+  ProfileUserInfoModel,
+  Role,
+  ScoreboardItem,
+  ScoreboardModel,
+  SubmissionType,
+  TeamInfoModel,
+  TimeLine,
+  TopTimeLine,
+  UserInfoModel,
+  WriteupInfoModel,
+} from '@Api'
+
+// -----------------------------------------
+// Fixture builders typed against the api models
+// -----------------------------------------
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+/**
+ * Seeded random numbers, so fixtures stay the same across reloads
+ */
+export const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+export const mockConfig = (): ClientConfig => ({
+  title: 'GZ',
+  slogan: 'Hack for fun not for profit',
+  footerInfo: 'Mock backend',
+  portMapping: ContainerPortMappingType.Default,
+  defaultLifetime: 120,
+  extensionDuration: 120,
+  renewalWindow: 10,
+})
+
+export const mockProfile = (role: Role): ProfileUserInfoModel => ({
+  userId: '00000000-0000-0000-0000-000000000001',
+  userName: role === Role.Admin ? 'admin' : 'ctfer',
+  email: role === Role.Admin ? 'admin@example.com' : 'ctfer@example.com',
+  bio: 'Mock user',
+  phone: null,
+  realName: null,
+  stdNumber: null,
+  avatar: null,
+  role,
+})
+
+export const mockTeam = (id: number, profile: ProfileUserInfoModel): TeamInfoModel => ({
+  id,
+  name: `Team ${id}`,
+  bio: 'Team of the mock user',
+  avatar: null,
+  locked: false,
+  members: [{ id: profile.userId, userName: profile.userName, bio: profile.bio, avatar: null, captain: true }],
+})
+
+export const mockGame = (
+  id: number,
+  start: number,
+  end: number,
+  overrides: Partial<DetailedGameInfoModel> = {}
+): Required<Pick<DetailedGameInfoModel, 'id' | 'start' | 'end'>> & DetailedGameInfoModel => ({
+  id,
+  title: `Mock CTF ${id}`,
+  summary: 'A game served by the mock backend',
+  content: '## Rules\n\n- Be nice\n- Flags look like `flag{...}`\n- Any flag containing `mock` is accepted',
+  hidden: false,
+  divisions: ['Student', 'Open'],
+  inviteCodeRequired: false,
+  writeupRequired: false,
+  poster: null,
+  limit: 4,
+  teamCount: 0,
+  division: null,
+  teamName: null,
+  practiceMode: true,
+  status: ParticipationStatus.Unsubmitted,
+  ...overrides,
+  start,
+  end,
+})
+
+export const toBasicGame = (game: ReturnType<typeof mockGame>): BasicGameInfoModel => ({
+  id: game.id,
+  title: game.title,
+  summary: game.summary,
+  poster: game.poster,
+  limit: game.limit,
+  start: game.start,
+  end: game.end,
+})
+
+const CHALLENGE_CATEGORIES = [
+  ChallengeCategory.Web,
+  ChallengeCategory.Pwn,
+  ChallengeCategory.Crypto,
+  ChallengeCategory.Reverse,
+  ChallengeCategory.Misc,
+]
+
+export const mockChallenges = (count: number): ChallengeDetailModel[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    title: `${CHALLENGE_CATEGORIES[i % CHALLENGE_CATEGORIES.length]} ${Math.floor(i / CHALLENGE_CATEGORIES.length) + 1}`,
+    content: `Challenge **${i + 1}** of the mock game.\n\n\`\`\`\nnc 127.0.0.1 ${10000 + i}\n\`\`\``,
+    category: CHALLENGE_CATEGORIES[i % CHALLENGE_CATEGORIES.length],
+    hints: i % 3 === 0 ? ['Try harder'] : [],
+    score: 1000,
+    type: i % 2 === 0 ? ChallengeType.StaticAttachment : ChallengeType.DynamicContainer,
+    context: { closeTime: null, instanceEntry: null, url: null, fileSize: null },
+    limit: 0,
+    attempts: 0,
+  }))
+
+interface ScoreboardOptions {
+  teams: number
+  challenges: ChallengeDetailModel[]
+  start: number
+  /** submissions are spread between start and this time */
+  until: number
+  divisions?: string[]
+  seed?: number
+}
+
+const BloodTypes = [SubmissionType.FirstBlood, SubmissionType.SecondBlood, SubmissionType.ThirdBlood]
+const BloodFactors = [1.05, 1.03, 1.01]
+
+/**
+ * A consistent scoreboard, challenge infos and timelines for the teams
+ */
+export const mockScoreboard = ({
+  teams,
+  challenges,
+  start,
+  until,
+  divisions = [],
+  seed = 42,
+}: ScoreboardOptions): ScoreboardModel => {
+  const random = createRandom(seed)
+  const span = Math.max(until - start, MINUTE)
+
+  const solves = Array.from({ length: teams }, (_, i) => {
+    const skill = 1 - i / (teams + 1)
+    return challenges
+      .filter(() => random() < skill * 0.9)
+      .map((chal) => ({ chal, time: start + Math.floor(random() * span) }))
+  })
+
+  // rank solves of each challenge by time to get the bloods
+  const order = new Map<number, { team: number; time: number }[]>()
+  solves.forEach((list, team) =>
+    list.forEach(({ chal, time }) => order.set(chal.id!, [...(order.get(chal.id!) ?? []), { team, time }]))
+  )
+  order.forEach((list) => list.sort((a, b) => a.time - b.time))
+
+  const items: ScoreboardItem[] = solves.map((list, team) => {
+    const solved: ChallengeItem[] = list
+      .sort((a, b) => a.time - b.time)
+      .map(({ chal, time }) => {
+        const place = order.get(chal.id!)!.findIndex((s) => s.team === team)
+        const type = BloodTypes[place] ?? SubmissionType.Normal
+        return {
+          id: chal.id,
+          score: Math.round((chal.score ?? 0) * (BloodFactors[place] ?? 1)),
+          type,
+          userName: `player${team + 1}`,
+          time,
+        }
+      })
+
+    return {
+      id: team + 1,
+      name: `Team ${team + 1}`,
+      bio: null,
+      division: divisions.length ? divisions[team % divisions.length] : null,
+      avatar: null,
+      score: solved.reduce((sum, s) => sum + (s.score ?? 0), 0),
+      rank: 0,
+      divisionRank: null,
+      lastSubmissionTime: solved.at(-1)?.time ?? start,
+      solvedChallenges: solved,
+      solvedCount: solved.length,
+    }
+  })
+
+  items.sort((a, b) => b.score! - a.score! || a.lastSubmissionTime! - b.lastSubmissionTime!)
+  items.forEach((item, i) => (item.rank = i + 1))
+  divisions.forEach((division) =>
+    items.filter((item) => item.division === division).forEach((item, i) => (item.divisionRank = i + 1))
+  )
+
+  const challengeInfos: Record<string, ChallengeInfo[]> = {}
+  challenges.forEach((chal) => {
+    const list = order.get(chal.id!) ?? []
+    const bloods: Blood[] = list.slice(0, 3).map(({ team, time }) => ({
+      id: team + 1,
+      name: `Team ${team + 1}`,
+      avatar: null,
+      submitTimeUtc: time,
+    }))
+    const info: ChallengeInfo = {
+      id: chal.id,
+      title: chal.title,
+      category: chal.category,
+      score: chal.score,
+      solved: list.length,
+      bloods,
+      disableBloodBonus: false,
+    }
+    challengeInfos[chal.category!] = [...(challengeInfos[chal.category!] ?? []), info]
+  })
+
+  const timeLine = (list: ScoreboardItem[]): TopTimeLine[] =>
+    list.slice(0, 10).map((item) => {
+      let score = 0
+      const points: TimeLine[] = [{ time: start, score: 0 }]
+      item.solvedChallenges?.forEach((s) => points.push({ time: s.time, score: (score += s.score ?? 0) }))
+      return { id: item.id, name: item.name, items: points }
+    })
+
+  return {
+    updateTimeUtc: Date.now(),
+    bloodBonus: (50 << 20) + (30 << 10) + 10,
+    timeLines: Object.fromEntries([
+      ['all', timeLine(items)],
+      ...divisions.map((division) => [division, timeLine(items.filter((item) => item.division === division))]),
+    ]),
+    items,
+    challenges: challengeInfos,
+    challengeCount: challenges.length,
+  }
+}
+
+export const mockNotices = (start: number, count: number): GameNotice[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: count - i,
+    time: start + (count - i) * HOUR,
+    type: NoticeType.Normal,
+    values: [`Notice ${count - i} of the mock game`],
+  }))
+
+export const mockPosts = (count: number): PostDetailModel[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `post${i + 1}`,
+    title: `Mock post ${i + 1}`,
+    summary: 'Posts are served by the mock backend',
+    content: `# Mock post ${i + 1}\n\nNothing to see here.`,
+    isPinned: i === 0,
+    tags: ['mock'],
+    authorAvatar: null,
+    authorName: 'admin',
+    time: Date.now() - i * 24 * HOUR,
+  }))
+
+export const mockUsers = (count: number, seed = 7): UserInfoModel[] => {
+  const random = createRandom(seed)
+  return Array.from({ length: count }, (_, i) => ({
+    id: `00000000-0000-0000-0001-${(i + 1).toString().padStart(12, '0')}`,
+    userName: `user${i + 1}`,
+    realName: null,
+    stdNumber: null,
+    phone: null,
+    bio: null,
+    registerTimeUtc: Date.now() - Math.floor(random() * 365) * 24 * HOUR,
+    lastVisitedUtc: Date.now() - Math.floor(random() * 30) * 24 * HOUR,
+    ip: `10.0.${Math.floor(i / 256)}.${i % 256}`,
+    email: `user${i + 1}@example.com`,
+    avatar: null,
+    role: i % 50 === 0 ? Role.Monitor : i % 97 === 0 ? Role.Banned : Role.User,
+    emailConfirmed: random() > 0.1,
+  }))
+}
+
+export const mockLogs = (count: number): LogMessageModel[] =>
+  Array.from({ length: count }, (_, i) => ({
+    time: Date.now() - i * MINUTE,
+    name: `user${(i % 20) + 1}`,
+    level: i % 15 === 0 ? 'Warning' : 'Information',
+    ip: `10.0.0.${i % 256}`,
+    msg: `Mock log message ${count - i}`,
+    status: null,
+  }))
+
+export const mockWriteups = (teams: number, end: number): WriteupInfoModel[] =>
+  Array.from({ length: teams }, (_, i) => ({
+    id: i + 1,
+    team: { id: i + 1, name: `Team ${i + 1}`, bio: null, avatar: null, locked: true, members: [] },
+    url: `/assets/mock/writeup-${i + 1}.pdf`,
+    uploadTimeUtc: end - Math.floor((i + 1) * 10 * MINUTE),
+  }))
@@ -0,0 +1,121 @@
+import * as signalR from '@microsoft/signalr'
+import { HubEventName, HubEvents } from '@Components/HubProvider'
+import { ChallengeClaimModel, ClaimStatus, applyClaim } from '@Utils/Claims'
+import { ScratchpadModel } from '@Utils/Notes'
+import { mockProfile } from '@Utils/mock/Fixtures'
+import { Role } from '@Api'
+
+// -----------------------------------------
+// In-memory hub connections of the mock backend
+// -----------------------------------------
+
+type Handler = (...args: unknown[]) => void
+
+const connections = new Set<MockHubConnection>()
+const scratchpads = new Map<string, ScratchpadModel>()
+const claims = new Map<number | undefined, ChallengeClaimModel[]>()
+
+/**
+ * The part of `HubConnection` used by the `HubProvider`, messages come from `emitHubEvent`
+ */
+class MockHubConnection {
+  state = signalR.HubConnectionState.Disconnected
+  serverTimeoutInMilliseconds = 0
+  readonly game?: number
+
+  private handlers = new Map<string, Set<Handler>>()
+  private closeCallbacks: ((err?: Error) => void)[] = []
+
+  constructor(readonly url: string) {
+    const game = new URL(url, window.location.origin).searchParams.get('game')
+    this.game = game ? Number(game) : undefined
+  }
+
+  start() {
+    this.state = signalR.HubConnectionState.Connected
+    connections.add(this)
+    return Promise.resolve()
+  }
+
+  stop() {
+    if (this.state === signalR.HubConnectionState.Disconnected) return Promise.resolve()
+    this.state = signalR.HubConnectionState.Disconnected
+    connections.delete(this)
+    this.closeCallbacks.forEach((callback) => callback())
+    return Promise.resolve()
+  }
+
+  on(method: string, handler: Handler) {
+    const set = this.handlers.get(method) ?? new Set()
+    set.add(handler)
+    this.handlers.set(method, set)
+  }
+
+  off(method: string, handler?: Handler) {
+    if (handler) this.handlers.get(method)?.delete(handler)
+    else this.handlers.delete(method)
+  }
+
+  onclose(callback: (err?: Error) => void) {
+    this.closeCallbacks.push(callback)
+  }
+
+  onreconnecting() {}
+
+  onreconnected() {}
+
+  /**
+   * Server methods of the user hub, every connection of a game acts as one team
+   */
+  invoke(method: string, ...args: unknown[]) {
+    const [challengeId, content] = args as [number, string]
+    const key = `${this.game}_${challengeId}`
+
+    switch (method) {
+      case 'GetScratchpad':
+        return Promise.resolve(scratchpads.get(key) ?? null)
+      case 'UpdateScratchpad': {
+        const scratchpad = { challengeId, content, userName: 'mock', time: Date.now() }
+        scratchpads.set(key, scratchpad)
+        connections.forEach((connection) => {
+          if (connection !== this && connection.game === this.game) connection.receive('ReceivedScratchpad', scratchpad)
+        })
+        return Promise.resolve(true)
+      }
+      case 'GetClaims':
+        return Promise.resolve(claims.get(this.game) ?? [])
+      case 'UpdateClaim': {
+        const { userId, userName } = mockProfile(Role.User)
+        const claim = {
+          challengeId,
+          userId: userId!,
+          userName,
+          status: args[1] as ClaimStatus | null,
+          time: Date.now(),
+        }
+        claims.set(this.game, applyClaim(claims.get(this.game) ?? [], claim))
+        connections.forEach((connection) => {
+          if (connection.game === this.game) connection.receive('ReceivedClaim', claim)
+        })
+        return Promise.resolve(true)
+      }
+      default:
+        return Promise.reject(new Error(`[mock hub] unknown method ${method}`))
+    }
+  }
+
+  receive(method: string, message: unknown) {
+    this.handlers.get(method)?.forEach((handler) => handler(message))
+  }
+}
+
+export const createMockHubConnection = (url: string) => new MockHubConnection(url) as unknown as signalR.HubConnection
+
+/**
+ * Deliver a message to the open connections, `game` limits it to the connections of the game
+ */
+export const emitHubEvent = <E extends HubEventName>(event: E, message: HubEvents[E], game?: number) => {
+  connections.forEach((connection) => {
+    if (game === undefined || connection.game === game) connection.receive(event, message)
+  })
+}
@@ -0,0 +1,261 @@
+import { HubEventName, HubEvents } from '@Components/HubProvider'
+import { applyScoreboardUpdate, ScoreboardUpdate } from '@Utils/Scoreboard'
+import {
+  mockChallenges,
+  mockConfig,
+  mockGame,
+  mockLogs,
+  mockNotices,
+  mockPosts,
+  mockProfile,
+  mockScoreboard,
+  mockTeam,
+  mockUsers,
+  mockWriteups,
+} from '@Utils/mock/Fixtures'
+import {
+  BasicWriteupInfoModel,
+  ChallengeDetailModel,
+  ClientConfig,
+  DetailedGameInfoModel,
+  GameNotice,
+  LogMessageModel,
+  NoticeType,
+  ParticipationStatus,
+  PostDetailModel,
+  ProfileUserInfoModel,
+  Role,
+  ScoreboardModel,
+  SubmissionType,
+  TeamInfoModel,
+  UserInfoModel,
+  WriteupInfoModel,
+} from '@Api'
+
+// -----------------------------------------
+// Scripted scenarios of the mock backend
+// -----------------------------------------
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+export interface MockGame {
+  info: DetailedGameInfoModel & { id: number; start: number; end: number }
+  challenges: ChallengeDetailModel[]
+  scoreboard: ScoreboardModel
+  notices: GameNotice[]
+  /** writeups of every team, shown to admins */
+  writeups: WriteupInfoModel[]
+  /** writeup of the team of the user */
+  writeup: BasicWriteupInfoModel
+  /** team of the user in the game */
+  teamId?: number
+}
+
+export interface MockState {
+  config: ClientConfig
+  /** null if logged out */
+  profile: ProfileUserInfoModel | null
+  /** the profile to use on login */
+  account: ProfileUserInfoModel
+  teams: TeamInfoModel[]
+  games: MockGame[]
+  posts: PostDetailModel[]
+  users: UserInfoModel[]
+  logs: LogMessageModel[]
+}
+
+/**
+ * Push a hub message every `interval` ms, `game` limits it to the connections of the game
+ */
+export interface MockHubScript<E extends HubEventName = HubEventName> {
+  event: E
+  interval: number
+  game?: number
+  /** return null to skip this time */
+  create: (state: MockState, count: number) => HubEvents[E] | null
+}
+
+export interface MockScenario {
+  description: string
+  create: () => MockState
+  scripts?: MockHubScript[]
+}
+
+const liveGame = (): MockGame => {
+  const now = Date.now()
+  const start = now - 6 * HOUR
+  const end = now + 18 * HOUR
+  const challenges = mockChallenges(15)
+  const scoreboard = mockScoreboard({ teams: 40, challenges, start, until: now, divisions: ['Student', 'Open'] })
+
+  return {
+    info: mockGame(1, start, end, {
+      teamCount: 40,
+      teamName: 'Team 3',
+      division: 'Student',
+      status: ParticipationStatus.Accepted,
+    }),
+    challenges,
+    scoreboard,
+    notices: mockNotices(start, 5),
+    writeups: [],
+    writeup: { submitted: false, name: '', fileSize: 0, note: '' },
+    teamId: 3,
+  }
+}
+
+const endedGame = (): MockGame => {
+  const now = Date.now()
+  const start = now - 3 * DAY
+  const end = now - DAY
+  const challenges = mockChallenges(20)
+
+  return {
+    info: mockGame(2, start, end, {
+      title: 'Mock CTF Finals',
+      teamCount: 25,
+      teamName: 'Team 3',
+      writeupRequired: true,
+      status: ParticipationStatus.Accepted,
+    }),
+    challenges,
+    scoreboard: mockScoreboard({ teams: 25, challenges, start, until: end, seed: 1337 }),
+    notices: mockNotices(start, 12),
+    writeups: mockWriteups(25, end),
+    writeup: { submitted: true, name: 'Writeup-Team3.pdf', fileSize: 1024 * 512, note: 'Please submit a PDF' },
+    teamId: 3,
+  }
+}
+
+const upcomingGame = (): MockGame => {
+  const now = Date.now()
+  const challenges = mockChallenges(0)
+
+  return {
+    info: mockGame(3, now + 7 * DAY, now + 9 * DAY, { title: 'Mock CTF Qualifiers' }),
+    challenges,
+    scoreboard: mockScoreboard({ teams: 0, challenges, start: now, until: now }),
+    notices: [],
+    writeups: [],
+    writeup: { submitted: false, name: '', fileSize: 0, note: '' },
+  }
+}
+
+const baseState = (role: Role, games: MockGame[]): MockState => {
+  const profile = mockProfile(role)
+  return {
+    config: mockConfig(),
+    profile,
+    account: profile,
+    teams: [mockTeam(3, profile)],
+    games,
+    posts: mockPosts(8),
+    users: [],
+    logs: [],
+  }
+}
+
+/**
+ * Record the first solve of the team on the scoreboard, returns the update to push to the hub
+ */
+export const solveChallenge = (game: MockGame, teamId: number, challengeId: number, userName: string) => {
+  const challenge = game.challenges.find((c) => c.id === challengeId)
+  if (!challenge) return null
+
+  const update: ScoreboardUpdate = {
+    teamId,
+    challengeId,
+    type: SubmissionType.Normal,
+    userName,
+    time: Date.now(),
+    challengeScore: challenge.score ?? 0,
+  }
+
+  const board = applyScoreboardUpdate(game.scoreboard, update)
+  if (!board || board === game.scoreboard) return null
+
+  game.scoreboard = board
+  return update
+}
+
+const solveScript = (game: number): MockHubScript<'ReceivedScoreboardUpdate'> => ({
+  event: 'ReceivedScoreboardUpdate',
+  interval: 20 * 1000,
+  game,
+  create: (state, count) => {
+    const target = state.games.find((g) => g.info.id === game)!
+    const items = target.scoreboard.items ?? []
+
+    // walk the board until a team with an unsolved challenge is found
+    for (let i = 0; i < items.length; i++) {
+      const team = items[(count * 7 + i) % items.length]
+      const solved = new Set(team.solvedChallenges?.map((c) => c.id))
+      const challenge = target.challenges.find((c) => !solved.has(c.id))
+      const update = challenge && solveChallenge(target, team.id!, challenge.id!, `player${team.id}`)
+      if (update) return update
+    }
+
+    return null
+  },
+})
+
+const noticeScript = (game: number): MockHubScript<'ReceivedGameNotice'> => ({
+  event: 'ReceivedGameNotice',
+  interval: 30 * 1000,
+  game,
+  create: (state, count) => {
+    const notices = state.games.find((g) => g.info.id === game)?.notices ?? []
+    const notice: GameNotice = {
+      id: (notices[0]?.id ?? 0) + 1,
+      time: Date.now(),
+      type: NoticeType.Normal,
+      values: [`Scripted notice #${count}`],
+    }
+    notices.unshift(notice)
+    return notice
+  },
+})
+
+export const MockScenarios: Record<string, MockScenario> = {
+  live: {
+    description: 'A user in a team playing a game in progress',
+    create: () => baseState(Role.User, [liveGame(), upcomingGame()]),
+    scripts: [noticeScript(1), solveScript(1)],
+  },
+  ended: {
+    description: 'A user after a game which has ended and requires writeups',
+    create: () => baseState(Role.User, [endedGame(), upcomingGame()]),
+  },
+  admin: {
+    description: 'An admin of a platform with many users',
+    create: () => ({
+      ...baseState(Role.Admin, [liveGame(), endedGame(), upcomingGame()]),
+      users: mockUsers(1200),
+      logs: mockLogs(300),
+    }),
+    scripts: [
+      noticeScript(1),
+      solveScript(1),
+      {
+        event: 'ReceivedLog',
+        interval: 5 * 1000,
+        create: (state, count) => {
+          const log: LogMessageModel = {
+            time: Date.now(),
+            name: 'admin',
+            level: 'Information',
+            ip: '127.0.0.1',
+            msg: `Scripted log message #${count}`,
+            status: null,
+          }
+          state.logs.unshift(log)
+          return log
+        },
+      },
+    ],
+  },
+}
+
+export const DEFAULT_SCENARIO = 'live'
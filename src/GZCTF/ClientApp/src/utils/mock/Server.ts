@@ -0,0 +1,310 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from 'axios'
+import { setHubConnectionFactory } from '@Components/HubProvider'
+import { toBasicGame } from '@Utils/mock/Fixtures'
+import { createMockHubConnection, emitHubEvent } from '@Utils/mock/Hub'
+import { DEFAULT_SCENARIO, MockGame, MockScenarios, MockState, solveChallenge } from '@Utils/mock/Scenarios'
+import {
+  AnswerResult,
+  CaptchaProvider,
+  GameDetailModel,
+  ParticipationStatus,
+  PostInfoModel,
+  RequestResponse,
+  TeamInfoModel,
+} from '@Api'
+
+// -----------------------------------------
+// Mock backend served by an axios adapter
+// -----------------------------------------
+
+const MIN_LATENCY = 120
+const MAX_LATENCY = 400
+
+interface MockRequest {
+  params: Record<string, string>
+  query: URLSearchParams
+  body: unknown
+}
+
+interface MockResponse {
+  status: number
+  data?: unknown
+}
+
+type MockHandler = (state: MockState, req: MockRequest) => MockResponse
+
+const ok = (data?: unknown): MockResponse => ({ status: 200, data })
+
+const fail = (status: number, title: string): MockResponse => ({
+  status,
+  data: { title, status } satisfies RequestResponse,
+})
+
+const paged = <T>(list: T[], query: URLSearchParams) => {
+  const count = Number(query.get('count') ?? 100)
+  const skip = Number(query.get('skip') ?? 0)
+  return {
+    data: list.slice(skip, skip + count),
+    length: Math.min(count, Math.max(0, list.length - skip)),
+    total: list.length,
+  }
+}
+
+const findGame = (state: MockState, id: string) => state.games.find((g) => g.info.id === Number(id))
+
+const withGame = (handler: (game: MockGame, state: MockState, req: MockRequest) => MockResponse): MockHandler => {
+  return (state, req) => {
+    const game = findGame(state, req.params.id)
+    return game ? handler(game, state, req) : fail(404, 'Game not found')
+  }
+}
+
+const requireLogin = (handler: MockHandler): MockHandler => {
+  return (state, req) => (state.profile ? handler(state, req) : fail(401, 'Unauthorized'))
+}
+
+const basicGames = (state: MockState) => state.games.map((g) => toBasicGame(g.info))
+
+const toPostInfo = ({ content: _, ...post }: MockState['posts'][number]): PostInfoModel => post
+
+// submission id -> result
+const submissions = new Map<number, AnswerResult>()
+
+const Routes: [route: string, handler: MockHandler][] = [
+  ['GET /api/config', (state) => ok(state.config)],
+  ['GET /api/captcha', () => ok({ type: CaptchaProvider.None })],
+
+  ['GET /api/account/profile', requireLogin((state) => ok(state.profile))],
+  [
+    'POST /api/account/login',
+    (state) => {
+      state.profile = state.account
+      return ok()
+    },
+  ],
+  [
+    'POST /api/account/logout',
+    (state) => {
+      state.profile = null
+      return ok()
+    },
+  ],
+  [
+    'PUT /api/account/update',
+    requireLogin((state, req) => {
+      state.profile = { ...state.profile, ...(req.body as object) }
+      state.account = state.profile
+      return ok()
+    }),
+  ],
+
+  ['GET /api/team', requireLogin((state) => ok(state.teams))],
+  [
+    'GET /api/team/:id',
+    (state, req) => {
+      const team = state.teams.find((t) => t.id === Number(req.params.id))
+      return team ? ok(team) : fail(404, 'Team not found')
+    },
+  ],
+
+  ['GET /api/posts/latest', (state) => ok(state.posts.slice(0, 3).map(toPostInfo))],
+  ['GET /api/posts', (state) => ok(state.posts.map(toPostInfo))],
+  [
+    'GET /api/posts/:id',
+    (state, req) => {
+      const post = state.posts.find((p) => p.id === req.params.id)
+      return post ? ok(post) : fail(404, 'Post not found')
+    },
+  ],
+
+  ['GET /api/game/recent', (state) => ok(basicGames(state))],
+  ['GET /api/game', (state, req) => ok(paged(basicGames(state), req.query))],
+  ['GET /api/game/:id', withGame((game) => ok(game.info))],
+  [
+    'GET /api/game/:id/details',
+    withGame((game) => {
+      if (game.info.status !== ParticipationStatus.Accepted) return fail(400, 'Not participating in the game')
+      if (game.info.start > Date.now()) return fail(400, 'Game not started')
+
+      const rank = game.scoreboard.items?.find((item) => item.id === game.teamId) ?? null
+      const detail: GameDetailModel = {
+        challenges: game.scoreboard.challenges,
+        challengeCount: game.challenges.length,
+        rank,
+        teamToken: `mock-team-token-${game.teamId}`,
+        writeupRequired: game.info.writeupRequired ?? false,
+        writeupDeadline: game.info.end + 24 * 60 * 60 * 1000,
+      }
+      return ok(detail)
+    }),
+  ],
+  ['GET /api/game/:id/scoreboard', withGame((game) => ok(game.scoreboard))],
+  ['GET /api/game/:id/notices', withGame((game) => ok(game.notices))],
+  ['GET /api/game/:id/writeup', withGame((game) => ok(game.writeup))],
+  [
+    'GET /api/game/:id/challenges/:challenge',
+    withGame((game, _, req) => {
+      const challenge = game.challenges.find((c) => c.id === Number(req.params.challenge))
+      return challenge ? ok(challenge) : fail(404, 'Challenge not found')
+    }),
+  ],
+  [
+    'POST /api/game/:id/challenges/:challenge',
+    withGame((game, state, req) => {
+      const challenge = game.challenges.find((c) => c.id === Number(req.params.challenge))
+      if (!challenge) return fail(404, 'Challenge not found')
+      if (game.info.end < Date.now()) return fail(400, 'Game ended')
+
+      const flag = String((req.body as { flag?: string })?.flag ?? '')
+      const accepted = flag.includes('mock')
+      // solves already on the board are skipped
+      if (accepted && game.teamId !== undefined) {
+        const update = solveChallenge(game, game.teamId, challenge.id!, state.profile?.userName ?? 'ctfer')
+        if (update) emitHubEvent('ReceivedScoreboardUpdate', update, game.info.id)
+      }
+
+      const id = submissions.size + 1
+      submissions.set(id, accepted ? AnswerResult.Accepted : AnswerResult.WrongAnswer)
+      return ok(id)
+    }),
+  ],
+  [
+    'GET /api/game/:id/challenges/:challenge/status/:submit',
+    (_, req) => ok(submissions.get(Number(req.params.submit)) ?? AnswerResult.NotFound),
+  ],
+
+  ['GET /api/admin/users', (state, req) => ok(paged(state.users, req.query))],
+  [
+    'POST /api/admin/users/search',
+    (state, req) => {
+      const hint = (req.query.get('hint') ?? '').toLowerCase()
+      const users = state.users.filter(
+        (u) => u.userName?.toLowerCase().includes(hint) || u.email?.toLowerCase().includes(hint)
+      )
+      return ok({ data: users.slice(0, 30), length: Math.min(30, users.length), total: users.length })
+    },
+  ],
+  [
+    'GET /api/admin/teams',
+    (state, req) => {
+      const teams: TeamInfoModel[] = (state.games[0]?.scoreboard.items ?? []).map((item) => ({
+        id: item.id,
+        name: item.name,
+        bio: item.bio,
+        avatar: item.avatar,
+        locked: true,
+        members: [],
+      }))
+      return ok(paged(teams, req.query))
+    },
+  ],
+  ['GET /api/admin/logs', (state, req) => ok(paged(state.logs, req.query).data)],
+  ['GET /api/admin/writeups/:id', withGame((game) => ok(game.writeups))],
+]
+
+const CompiledRoutes = Routes.map(([route, handler]) => {
+  const [method, path] = route.split(' ')
+  const keys: string[] = []
+  const pattern = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key)
+    return '([^/]+)'
+  })
+  return { method: method.toLowerCase(), regex: new RegExp(`^${pattern}/?$`), keys, handler }
+})
+
+const sleep = (ms: number, signal?: InternalAxiosRequestConfig['signal']) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener?.('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== 'string') return data
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+const createAdapter = (state: MockState): AxiosAdapter => {
+  return async (config) => {
+    const method = (config.method ?? 'get').toLowerCase()
+    const url = new URL(config.url ?? '', window.location.origin)
+
+    if (config.params && typeof config.params === 'object') {
+      Object.entries(config.params).forEach(([k, v]) => {
+        if (v !== undefined && v !== null) url.searchParams.append(k, String(v))
+      })
+    }
+
+    await sleep(MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY), config.signal)
+    if (config.signal?.aborted) throw new CanceledError(undefined, undefined, config)
+
+    let result = fail(404, `No mock for ${method.toUpperCase()} ${url.pathname}`)
+    for (const route of CompiledRoutes) {
+      const match = route.method === method && route.regex.exec(url.pathname)
+      if (!match) continue
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]))
+      result = route.handler(state, { params, query: url.searchParams, body: parseBody(config.data) })
+      break
+    }
+
+    const response: AxiosResponse = {
+      data: result.data,
+      status: result.status,
+      statusText: String(result.status),
+      headers: { 'content-type': 'application/json' },
+      config,
+      request: {},
+    }
+
+    if (!config.validateStatus || config.validateStatus(response.status)) return response
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    )
+  }
+}
+
+/**
+ * Serve every request of the instance and every hub from the scenario,
+ * `?mock=<scenario>` in the url switches the scenario until the tab is closed
+ */
+export const setupMockBackend = (instance: AxiosInstance, flag: string) => {
+  const fromUrl = new URLSearchParams(window.location.search).get('mock')
+  if (fromUrl) sessionStorage.setItem('mock-scenario', fromUrl)
+
+  const requested = sessionStorage.getItem('mock-scenario') ?? flag
+  const name = requested in MockScenarios ? requested : DEFAULT_SCENARIO
+  const scenario = MockScenarios[name]
+  const state = scenario.create()
+
+  console.warn(`[mock] serving scenario "${name}": ${scenario.description}`)
+  console.warn(`[mock] available scenarios: ${Object.keys(MockScenarios).join(', ')}`)
+
+  instance.defaults.adapter = createAdapter(state)
+  setHubConnectionFactory(createMockHubConnection)
+
+  scenario.scripts?.forEach((script) => {
+    let count = 0
+    window.setInterval(() => {
+      const message = script.create(state, ++count)
+      if (message) emitHubEvent(script.event, message, script.game)
+    }, script.interval)
+  })
+}
@@ -1,5 +1,6 @@
 import react from '@vitejs/plugin-react'
 import process from 'process'
+import { fileURLToPath } from 'url'
 import { defineConfig, loadEnv } from 'vite'
 import banner from 'vite-plugin-banner'
 import { optimizeCssModules } from 'vite-plugin-optimize-css-modules'
@@ -23,7 +24,11 @@ export default defineConfig(({ mode }) => {
     ` * Build     : ${env.VITE_APP_BUILD_TIMESTAMP ?? current.toISOString()}\n` +
     ` * Copyright (C) 2022-${current.getFullYear()} GZTimeWalker. All Rights Reserved.\n */`
 
-  console.log(`Using backend URL: ${TARGET}`)
+  if (env.VITE_MOCK) {
+    console.log(`Using mock backend, scenario: ${env.VITE_MOCK}`)
+  } else {
+    console.log(`Using backend URL: ${TARGET}`)
+  }
 
   return {
     server: {
@@ -45,6 +50,11 @@ export default defineConfig(({ mode }) => {
       chunkSizeWarningLimit: 2400,
       reportCompressedSize: true,
       rollupOptions: {
+        // the embeddable widget is a separate page, see src/embed.tsx
+        input: {
+          index: fileURLToPath(new URL('./index.html', import.meta.url)),
+          embed: fileURLToPath(new URL('./embed.html', import.meta.url)),
+        },
         output: {
           hashCharacters: 'base36',
           chunkFileNames: 'static/[hash].js',
@@ -710,6 +710,32 @@ public class GameController(
         });
     }
 
+    /// <summary>
+    /// Get challenge briefs of the team
+    /// </summary>
+    /// <remarks>
+    /// Retrieves the content and instance state of all challenges for the team; requires User permission and active team participation
+    /// </remarks>
+    /// <param name="id">Game ID</param>
+    /// <param name="token"></param>
+    /// <response code="200">Successfully retrieved challenge briefs</response>
+    /// <response code="400">Invalid operation</response>
+    /// <response code="404">Game not found</response>
+    [RequireUser]
+    [HttpGet("{id:int}/Challenges/Briefs")]
+    [ProducesResponseType(typeof(ChallengeBriefModel[]), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(RequestResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(RequestResponse), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ChallengeBriefs([FromRoute] int id, CancellationToken token)
+    {
+        var context = await GetContextInfo(id, token: token);
+
+        if (context.Result is not null)
+            return context.Result;
+
+        return Ok(await gameInstanceRepository.GetChallengeBriefs(context.Participation!, token));
+    }
+
     /// <summary>
     /// Get all game participations
     /// </summary>
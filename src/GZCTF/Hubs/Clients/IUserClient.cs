@@ -1,4 +1,6 @@
-﻿namespace GZCTF.Hubs.Clients;
+﻿using GZCTF.Models.Request.Game;
+
+namespace GZCTF.Hubs.Clients;
 
 public interface IUserClient
 {
@@ -6,4 +8,19 @@ public interface IUserClient
     /// 接收到比赛通知信息
     /// </summary>
     public Task ReceivedGameNotice(GameNotice notice);
+
+    /// <summary>
+    /// 接收到记分板更新信息
+    /// </summary>
+    public Task ReceivedScoreboardUpdate(ScoreboardUpdate update);
+
+    /// <summary>
+    /// 接收到队友更新的共享草稿
+    /// </summary>
+    public Task ReceivedScratchpad(ScratchpadModel scratchpad);
+
+    /// <summary>
+    /// 接收到队员题目工作状态的变更
+    /// </summary>
+    public Task ReceivedClaim(ChallengeClaimModel claim);
 }
@@ -1,11 +1,30 @@
-﻿using GZCTF.Hubs.Clients;
+﻿using System.Text.Json;
+using GZCTF.Hubs.Clients;
+using GZCTF.Models;
+using GZCTF.Models.Request.Game;
 using GZCTF.Repositories.Interface;
+using GZCTF.Services.Cache;
+using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.Caching.Distributed;
 
 namespace GZCTF.Hubs;
 
-public class UserHub : Hub<IUserClient>
+public class UserHub(
+    IDistributedCache cache,
+    IGameRepository gameRepository,
+    IGameChallengeRepository challengeRepository) : Hub<IUserClient>
 {
+    const string GameKey = "Game";
+    const string ParticipationKey = "Participation";
+    const string UserKey = "User";
+    const string MembersKey = "Members";
+
+    // scratchpads and claims only live in the distributed cache, without Redis that is the memory
+    // of this instance and they are lost on every restart
+    static readonly DistributedCacheEntryOptions TeamCacheOptions =
+        new() { SlidingExpiration = TimeSpan.FromDays(14) };
+
     public override async Task OnConnectedAsync()
     {
         var context = Context.GetHttpContext();
@@ -18,7 +37,6 @@ public class UserHub : Hub<IUserClient>
             return;
         }
 
-        var gameRepository = context.RequestServices.GetRequiredService<IGameRepository>();
         if (!await gameRepository.HasGameAsync(gId))
         {
             Context.Abort();
@@ -28,5 +46,187 @@ public class UserHub : Hub<IUserClient>
         await base.OnConnectedAsync();
 
         await Groups.AddToGroupAsync(Context.ConnectionId, $"Game_{gId}");
+
+        // members of an accepted team share the scratchpads and work status of the game
+        var userManager = context.RequestServices.GetRequiredService<UserManager<UserInfo>>();
+        var user = await userManager.GetUserAsync(context.User);
+        var game = user is null ? null : await gameRepository.GetGameById(gId);
+        if (user is null || game is null)
+            return;
+
+        var participationRepository = context.RequestServices.GetRequiredService<IParticipationRepository>();
+        var part = await participationRepository.GetParticipation(user, game);
+        if (part is not { Status: ParticipationStatus.Accepted })
+            return;
+
+        Context.Items[GameKey] = gId;
+        Context.Items[ParticipationKey] = part.Id;
+        Context.Items[UserKey] = user;
+        Context.Items[MembersKey] = part.Members.Select(m => m.UserId).ToArray();
+        await Groups.AddToGroupAsync(Context.ConnectionId, $"Participation_{part.Id}");
+    }
+
+    /// <summary>
+    /// Get the team scratchpad of a challenge
+    /// </summary>
+    /// <param name="challengeId">Challenge ID</param>
+    public async Task<ScratchpadModel?> GetScratchpad(int challengeId)
+    {
+        if (Context.Items[ParticipationKey] is not int partId)
+            return null;
+
+        var json = await cache.GetStringAsync(CacheKey.Scratchpad(partId, challengeId), Context.ConnectionAborted);
+        return json is null ? null : JsonSerializer.Deserialize(json, AppJsonSerializerContext.Default.ScratchpadModel);
+    }
+
+    /// <summary>
+    /// Update the team scratchpad of a challenge and push it to the teammates
+    /// </summary>
+    /// <param name="challengeId">Challenge ID</param>
+    /// <param name="content">Markdown content</param>
+    /// <param name="baseTime">Update time of the scratchpad the edit is based on, 0 if there was none</param>
+    /// <returns>The stored scratchpad, a teammate's newer one if the edit is stale, null if rejected</returns>
+    public async Task<ScratchpadModel?> UpdateScratchpad(int challengeId, string? content, long baseTime)
+    {
+        if (Context.Items[ParticipationKey] is not int partId || content is null
+            || content.Length > Limits.MaxScratchpadLength || !await IsChallengeAvailable(challengeId))
+            return null;
+
+        // a teammate saved in between, never overwrite a version the editor has not seen
+        var current = await GetScratchpad(challengeId);
+        if (current is not null && current.UpdateTimeUtc != baseTime)
+            return current;
+
+        var scratchpad = new ScratchpadModel
+        {
+            ChallengeId = challengeId,
+            Content = content,
+            UserName = Context.User?.Identity?.Name,
+            UpdateTimeUtc = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
+        };
+
+        await cache.SetStringAsync(CacheKey.Scratchpad(partId, challengeId),
+            JsonSerializer.Serialize(scratchpad, AppJsonSerializerContext.Default.ScratchpadModel),
+            TeamCacheOptions, Context.ConnectionAborted);
+        await Clients.OthersInGroup($"Participation_{partId}").ReceivedScratchpad(scratchpad);
+
+        return scratchpad;
     }
+
+    /// <summary>
+    /// Get the work status of the team members on the challenges
+    /// </summary>
+    public async Task<ChallengeClaimModel[]> GetClaims()
+    {
+        if (Context.Items[ParticipationKey] is not int partId || Context.Items[MembersKey] is not Guid[] members)
+            return [];
+
+        List<ChallengeClaimModel> claims = [];
+        foreach (var member in members)
+            claims.AddRange(await GetClaimsAsync(cache, partId, member, Context.ConnectionAborted));
+
+        return [.. claims];
+    }
+
+    /// <summary>
+    /// Set the work status of the current user on a challenge and push it to the team
+    /// </summary>
+    /// <param name="challengeId">Challenge ID</param>
+    /// <param name="status">Work status, null to release the challenge</param>
+    public async Task<bool> UpdateClaim(int challengeId, ClaimStatus? status)
+    {
+        // claims can always be released, even after the challenge is disabled
+        if (Context.Items[ParticipationKey] is not int partId || Context.Items[UserKey] is not UserInfo user
+            || (status is not null && !await IsChallengeAvailable(challengeId)))
+            return false;
+
+        var claim = new ChallengeClaimModel
+        {
+            ChallengeId = challengeId,
+            UserId = user.Id,
+            UserName = user.UserName,
+            Avatar = user.AvatarUrl,
+            Status = status,
+            UpdateTimeUtc = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
+        };
+
+        // every member only writes their own claims, so teammates never overwrite each other
+        var claims = await GetClaimsAsync(cache, partId, user.Id, Context.ConnectionAborted);
+        claims.RemoveAll(c => c.ChallengeId == challengeId);
+        if (status is not null)
+        {
+            if (claims.Count >= Limits.MaxClaimsPerUser)
+                return false;
+            claims.Add(claim);
+        }
+
+        await SetClaimsAsync(cache, partId, user.Id, claims, Context.ConnectionAborted);
+
+        // other tabs of the same user are in the group as well
+        await Clients.Group($"Participation_{partId}").ReceivedClaim(claim);
+
+        return true;
+    }
+
+    /// <summary>
+    /// Whether the challenge is an enabled challenge of the connected game and the game is running,
+    /// so cache entries are only created for challenges the team can see
+    /// </summary>
+    /// <param name="challengeId">Challenge ID</param>
+    async Task<bool> IsChallengeAvailable(int challengeId)
+    {
+        if (Context.Items[GameKey] is not int gameId)
+            return false;
+
+        var game = await gameRepository.GetGameById(gameId, Context.ConnectionAborted);
+        var now = DateTimeOffset.UtcNow;
+        if (game is null || now < game.StartTimeUtc || (now > game.EndTimeUtc && !game.PracticeMode))
+            return false;
+
+        var challenge = await challengeRepository.GetChallenge(gameId, challengeId, Context.ConnectionAborted);
+        return challenge is { IsEnabled: true };
+    }
+
+    /// <summary>
+    /// Release the claims of all members on a challenge once the team has solved it,
+    /// the claim control is gone after the solve and the claims would count against the limit forever
+    /// </summary>
+    /// <param name="cache">Distributed cache</param>
+    /// <param name="hub">User hub context</param>
+    /// <param name="part">Participation of the team</param>
+    /// <param name="challengeId">Challenge ID</param>
+    /// <param name="token"></param>
+    internal static async Task ReleaseClaims(IDistributedCache cache, IHubContext<UserHub, IUserClient> hub,
+        Participation part, int challengeId, CancellationToken token = default)
+    {
+        foreach (var member in part.Members)
+        {
+            var claims = await GetClaimsAsync(cache, part.Id, member.UserId, token);
+            var claim = claims.Find(c => c.ChallengeId == challengeId);
+            if (claim is null)
+                continue;
+
+            claims.Remove(claim);
+            await SetClaimsAsync(cache, part.Id, member.UserId, claims, token);
+
+            claim.Status = null;
+            claim.UpdateTimeUtc = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds();
+            await hub.Clients.Group($"Participation_{part.Id}").ReceivedClaim(claim);
+        }
+    }
+
+    static async Task<List<ChallengeClaimModel>> GetClaimsAsync(IDistributedCache cache, int partId, Guid userId,
+        CancellationToken token)
+    {
+        var json = await cache.GetStringAsync(CacheKey.ChallengeClaims(partId, userId), token);
+        return json is null
+            ? []
+            : JsonSerializer.Deserialize(json, AppJsonSerializerContext.Default.ListChallengeClaimModel) ?? [];
+    }
+
+    static Task SetClaimsAsync(IDistributedCache cache, int partId, Guid userId, List<ChallengeClaimModel> claims,
+        CancellationToken token) =>
+        cache.SetStringAsync(CacheKey.ChallengeClaims(partId, userId),
+            JsonSerializer.Serialize(claims, AppJsonSerializerContext.Default.ListChallengeClaimModel),
+            TeamCacheOptions, token);
 }
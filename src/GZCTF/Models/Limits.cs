@@ -86,4 +86,14 @@ public static class Limits
     /// 最大日志状态长度
     /// </summary>
     public const int MaxLogStatusLength = 10;
+
+    /// <summary>
+    /// 队伍共享草稿最大长度
+    /// </summary>
+    public const int MaxScratchpadLength = 16384;
+
+    /// <summary>
+    /// 每个成员同时标记的最大题目数量
+    /// </summary>
+    public const int MaxClaimsPerUser = 32;
 }
@@ -0,0 +1,22 @@
+﻿namespace GZCTF.Models.Request.Game;
+
+/// <summary>
+/// Challenge content and instance state of a team, used to search and filter the challenge board
+/// </summary>
+public class ChallengeBriefModel
+{
+    /// <summary>
+    /// Challenge ID
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Challenge content
+    /// </summary>
+    public string Content { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Whether the team has a running instance of the challenge
+    /// </summary>
+    public bool InstanceRunning { get; set; }
+}
@@ -0,0 +1,40 @@
+using System.Text.Json.Serialization;
+
+namespace GZCTF.Models.Request.Game;
+
+/// <summary>
+/// Work status of a team member on a challenge
+/// </summary>
+public class ChallengeClaimModel
+{
+    /// <summary>
+    /// Challenge ID
+    /// </summary>
+    public int ChallengeId { get; set; }
+
+    /// <summary>
+    /// User ID
+    /// </summary>
+    public Guid UserId { get; set; }
+
+    /// <summary>
+    /// Username
+    /// </summary>
+    public string? UserName { get; set; }
+
+    /// <summary>
+    /// Avatar URL
+    /// </summary>
+    public string? Avatar { get; set; }
+
+    /// <summary>
+    /// Work status, null if the member released the challenge
+    /// </summary>
+    public ClaimStatus? Status { get; set; }
+
+    /// <summary>
+    /// Update time in milliseconds
+    /// </summary>
+    [JsonPropertyName("time")]
+    public long UpdateTimeUtc { get; set; }
+}
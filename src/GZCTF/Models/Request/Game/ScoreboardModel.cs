@@ -1,4 +1,4 @@
-using System.ComponentModel.DataAnnotations;
+﻿using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
 using System.Text.Json.Serialization;
 using MemoryPack;
@@ -255,6 +255,24 @@ public partial class ChallengeInfo
     [NotMapped]
     [MemoryPackIgnore]
     public bool DisableBloodBonus { get; set; }
+
+    // the scoring parameters are as public as the scoreboard by design,
+    // clients replay the dynamic score of past moments with them
+
+    /// <summary>
+    /// Initial score, used to replay the dynamic score
+    /// </summary>
+    public int OriginalScore { get; set; }
+
+    /// <summary>
+    /// Minimum score rate, used to replay the dynamic score
+    /// </summary>
+    public double MinScoreRate { get; set; }
+
+    /// <summary>
+    /// Difficulty coefficient, used to replay the dynamic score
+    /// </summary>
+    public double Difficulty { get; set; }
 }
 
 [MemoryPackable]
@@ -0,0 +1,53 @@
+﻿using System.Text.Json.Serialization;
+
+namespace GZCTF.Models.Request.Game;
+
+/// <summary>
+/// Scoreboard change pushed to the user hub when a team solves a challenge
+/// </summary>
+public class ScoreboardUpdate
+{
+    /// <summary>
+    /// Team ID
+    /// </summary>
+    public int TeamId { get; set; }
+
+    /// <summary>
+    /// Challenge ID
+    /// </summary>
+    public int ChallengeId { get; set; }
+
+    /// <summary>
+    /// Submission type, blood types only if the challenge grants blood bonus
+    /// </summary>
+    [JsonPropertyName("type")]
+    public SubmissionType Type { get; set; }
+
+    /// <summary>
+    /// Username of the solver
+    /// </summary>
+    public string? UserName { get; set; }
+
+    /// <summary>
+    /// Submission time in milliseconds
+    /// </summary>
+    [JsonPropertyName("time")]
+    public long SubmitTimeUtc { get; set; }
+
+    /// <summary>
+    /// Current score of the challenge after this solve, without blood bonus
+    /// </summary>
+    public int ChallengeScore { get; set; }
+
+    internal static ScoreboardUpdate FromSubmission(Submission submission, SubmissionType type, int challengeScore) =>
+        new()
+        {
+            TeamId = submission.TeamId,
+            ChallengeId = submission.ChallengeId,
+            // the scoreboard does not count bloods of challenges without blood bonus
+            Type = submission.GameChallenge?.DisableBloodBonus is true ? SubmissionType.Normal : type,
+            UserName = submission.UserName,
+            SubmitTimeUtc = submission.SubmitTimeUtc.ToUnixTimeMilliseconds(),
+            ChallengeScore = challengeScore
+        };
+}
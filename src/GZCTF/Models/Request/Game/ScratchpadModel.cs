@@ -0,0 +1,32 @@
+using System.ComponentModel.DataAnnotations;
+using System.Text.Json.Serialization;
+
+namespace GZCTF.Models.Request.Game;
+
+/// <summary>
+/// Scratchpad of a challenge shared by the members of a team
+/// </summary>
+public class ScratchpadModel
+{
+    /// <summary>
+    /// Challenge ID
+    /// </summary>
+    public int ChallengeId { get; set; }
+
+    /// <summary>
+    /// Markdown content of the scratchpad
+    /// </summary>
+    [MaxLength(Limits.MaxScratchpadLength)]
+    public string Content { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Username of the last editor
+    /// </summary>
+    public string? UserName { get; set; }
+
+    /// <summary>
+    /// Last update time in milliseconds
+    /// </summary>
+    [JsonPropertyName("time")]
+    public long UpdateTimeUtc { get; set; }
+}
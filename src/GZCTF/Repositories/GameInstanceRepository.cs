@@ -1,4 +1,5 @@
 ﻿using GZCTF.Models.Internal;
+using GZCTF.Models.Request.Game;
 using GZCTF.Repositories.Interface;
 using GZCTF.Services.Container.Manager;
 using Microsoft.EntityFrameworkCore;
@@ -106,6 +107,19 @@ public class GameInstanceRepository(
         return instance;
     }
 
+    public Task<ChallengeBriefModel[]> GetChallengeBriefs(Participation team, CancellationToken token = default)
+        => Context.GameChallenges.IgnoreAutoIncludes()
+            .Where(c => c.GameId == team.GameId && c.IsEnabled)
+            .OrderBy(c => c.Id)
+            .Select(c => new ChallengeBriefModel
+            {
+                Id = c.Id,
+                Content = c.Content,
+                // instances are created on first access, a challenge may not have one yet
+                InstanceRunning = c.Instances.Any(i => i.ParticipationId == team.Id && i.Container != null)
+            })
+            .ToArrayAsync(token);
+
     public Task<GameInstance?> GetInstanceForSubmission(Participation team, int challengeId,
         CancellationToken token = default)
         => Context.GameInstances.IgnoreAutoIncludes()
@@ -319,7 +333,8 @@ public class GameInstanceRepository(
                 await SaveAsync(token);
                 await trans.CommitAsync(token);
 
-                return new(ret, updateSub.Status);
+                return new(ret, updateSub.Status,
+                    firstTime && beforeEnd ? updateSub.GameChallenge.CurrentScore : null);
             }
             catch (DbUpdateConcurrencyException) when (retry < maxRetries - 1)
             {
@@ -294,7 +294,10 @@ public class GameRepository(
                     Category = c.Category,
                     Score = c.CurrentScore,
                     SolvedCount = c.AcceptedCount,
-                    DisableBloodBonus = c.DisableBloodBonus
+                    DisableBloodBonus = c.DisableBloodBonus,
+                    OriginalScore = c.OriginalScore,
+                    MinScoreRate = c.MinScoreRate,
+                    Difficulty = c.Difficulty
                     // pending fields: Bloods
                 }).ToDictionaryAsync(c => c.Id, token);
 
@@ -1,4 +1,5 @@
 ﻿using GZCTF.Models.Internal;
+using GZCTF.Models.Request.Game;
 
 namespace GZCTF.Repositories.Interface;
 
@@ -13,6 +14,14 @@ public interface IGameInstanceRepository : IRepository
     /// <returns></returns>
     public Task<GameInstance?> GetInstance(Participation team, int challengeId, CancellationToken token = default);
 
+    /// <summary>
+    /// Get the content of all enabled challenges with the instance state of a team
+    /// </summary>
+    /// <param name="team">Team</param>
+    /// <param name="token"></param>
+    /// <returns></returns>
+    public Task<ChallengeBriefModel[]> GetChallengeBriefs(Participation team, CancellationToken token = default);
+
     /// <summary>
     /// Get a game instance for submission, with minimal includes
     /// </summary>
@@ -84,12 +84,15 @@ public class Server
                 localizer[nameof(Resources.Program.Model_ValidationFailed)]))
             { StatusCode = 400 };
 
-        var error = context.ModelState.Values.Where(v => v.Errors.Count > 0)
-            .Select(v => v.Errors.FirstOrDefault()?.ErrorMessage).FirstOrDefault();
+        var errors = context.ModelState
+            .Where(p => p.Value is { Errors.Count: > 0 })
+            .ToDictionary(p => p.Key, p => p.Value!.Errors.Select(e => e.ErrorMessage).ToArray());
 
-        return new JsonResult(new RequestResponse(error is [_, ..]
+        var error = errors.Values.Select(v => v.FirstOrDefault()).FirstOrDefault();
+
+        return new JsonResult(new ValidationRequestResponse(error is [_, ..]
             ? error
-            : localizer[nameof(Resources.Program.Model_ValidationFailed)]))
+            : localizer[nameof(Resources.Program.Model_ValidationFailed)], errors))
         { StatusCode = 400 };
     }
 }
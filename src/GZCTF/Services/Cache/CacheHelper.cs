@@ -253,6 +253,16 @@ public static class CacheKey
     /// </summary>
     public static string GameNotice(int id) => $"_GameNotice_{id}";
 
+    /// <summary>
+    /// Team scratchpad of a challenge
+    /// </summary>
+    public static string Scratchpad(int partId, int challengeId) => $"_Scratchpad_{partId}_{challengeId}";
+
+    /// <summary>
+    /// Work status of a team member on the challenges
+    /// </summary>
+    public static string ChallengeClaims(int partId, Guid userId) => $"_ChallengeClaims_{partId}_{userId}";
+
     /// <summary>
     /// Container connection counter
     /// </summary>
@@ -1,7 +1,12 @@
 ﻿using System.Threading.Channels;
+using GZCTF.Hubs;
+using GZCTF.Hubs.Clients;
+using GZCTF.Models.Request.Game;
 using GZCTF.Repositories.Interface;
 using GZCTF.Services.Cache;
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Caching.Distributed;
 
 namespace GZCTF.Services;
 
@@ -93,10 +98,15 @@ public class FlagChecker(
                     scope.ServiceProvider.GetRequiredService<IGameNoticeRepository>();
                 var submissionRepository =
                     scope.ServiceProvider.GetRequiredService<ISubmissionRepository>();
+                var userHub =
+                    scope.ServiceProvider.GetRequiredService<IHubContext<UserHub, IUserClient>>();
+                var participationRepository =
+                    scope.ServiceProvider.GetRequiredService<IParticipationRepository>();
+                var cache = scope.ServiceProvider.GetRequiredService<IDistributedCache>();
 
                 try
                 {
-                    (var type, var ans) = await instanceRepository.VerifyAnswer(item, token);
+                    (var type, var ans, var score) = await instanceRepository.VerifyAnswer(item, token);
 
                     switch (ans)
                     {
@@ -123,6 +133,20 @@ public class FlagChecker(
                                 // only flush the scoreboard if the contest is not ended and the submission is accepted
                                 if (item.Game!.EndTimeUtc > item.SubmitTimeUtc)
                                     await cacheHelper.FlushScoreboardCache(item.GameId, token);
+
+                                // push the first solve of the team, so scoreboards update without polling
+                                if (score is not null)
+                                {
+                                    await userHub.Clients.Group($"Game_{item.GameId}")
+                                        .ReceivedScoreboardUpdate(
+                                            ScoreboardUpdate.FromSubmission(item, type, score.Value));
+
+                                    var part = await participationRepository.GetParticipationById(
+                                        item.ParticipationId, token);
+                                    if (part is not null)
+                                        await UserHub.ReleaseClaims(cache, userHub, part, item.ChallengeId, token);
+                                }
+
                                 break;
                             }
                         default:
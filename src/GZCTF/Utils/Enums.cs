@@ -402,6 +402,28 @@ public enum AnswerResult : sbyte
     NotFound = -1
 }
 
+/// <summary>
+/// Work status of a team member on a challenge
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter<ClaimStatus>))]
+public enum ClaimStatus : byte
+{
+    /// <summary>
+    /// Looking into the challenge
+    /// </summary>
+    Looking = 0,
+
+    /// <summary>
+    /// Stuck and needs help
+    /// </summary>
+    Stuck = 1,
+
+    /// <summary>
+    /// Close to the flag
+    /// </summary>
+    Close = 2
+}
+
 public static class AnswerResultExtensions
 {
     public static string ToShortString(this AnswerResult result, IStringLocalizer<Program> localizer) =>
@@ -26,6 +26,7 @@ namespace GZCTF.Utils;
 [JsonSerializable(typeof(RequestResponse))]
 [JsonSerializable(typeof(RequestResponse<RegisterStatus>))]
 [JsonSerializable(typeof(RequestResponse<bool>))]
+[JsonSerializable(typeof(ValidationRequestResponse))]
 [JsonSerializable(typeof(ProfileUserInfoModel))]
 [JsonSerializable(typeof(ConfigEditModel))]
 [JsonSerializable(typeof(ArrayResponse<UserInfoModel>))]
@@ -55,6 +56,8 @@ namespace GZCTF.Utils;
 [JsonSerializable(typeof(GameDetailModel))]
 [JsonSerializable(typeof(ParticipationInfoModel[]))]
 [JsonSerializable(typeof(ChallengeDetailModel))]
+[JsonSerializable(typeof(ScratchpadModel))]
+[JsonSerializable(typeof(List<ChallengeClaimModel>))]
 [JsonSerializable(typeof(BasicWriteupInfoModel))]
 [JsonSerializable(typeof(PostInfoModel[]))]
 [JsonSerializable(typeof(ClientConfig))]
@@ -54,6 +54,17 @@ public record RequestResponse(string Title, int Status = StatusCodes.Status400Ba
 /// <param name="Status">Status code</param>
 public record RequestResponse<T>(string Title, T Data, int Status = StatusCodes.Status400BadRequest);
 
+/// <summary>
+/// Validation failure response
+/// </summary>
+/// <param name="Title">Response message</param>
+/// <param name="Errors">Error messages of each invalid field</param>
+/// <param name="Status">Status code</param>
+public record ValidationRequestResponse(
+    string Title,
+    Dictionary<string, string[]> Errors,
+    int Status = StatusCodes.Status400BadRequest);
+
 /// <summary>
 /// Data with modification time
 /// </summary>
@@ -68,7 +79,8 @@ public partial record DataWithModifiedTime<T>(T Data, DateTimeOffset LastModifie
 /// </summary>
 /// <param name="SubType">Submission type</param>
 /// <param name="AnsRes">Flag submission result</param>
-public record VerifyResult(SubmissionType SubType, AnswerResult AnsRes);
+/// <param name="ChallengeScore">Current score of the challenge, set only if the submission changes the scoreboard</param>
+public record VerifyResult(SubmissionType SubType, AnswerResult AnsRes, int? ChallengeScore = null);
 
 /// <summary>
 /// Team information